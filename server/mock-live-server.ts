@@ -0,0 +1,246 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * A local stand-in for the BidiGenerateContent websocket, for developing
+ * without network access.
+ *
+ *   npm run mock-server -- [--port 8765] [--scenario ./my-scenario.json] [--echo]
+ *
+ * then set REACT_APP_LIVE_API_URL=ws://localhost:8765 in your .env
+ */
+import { readFileSync } from "fs";
+import { resolve } from "path";
+import { WebSocket, WebSocketServer } from "ws";
+import type {
+  LiveIncomingMessage,
+  ServerContentMessage,
+  ToolCall,
+  ToolCallCancellation,
+} from "../src/multimodal-live-types";
+
+const OUTPUT_SAMPLE_RATE = 24000;
+
+// one step of a scripted model turn, `delay` (ms) is waited before the step
+export type ScenarioStep = { delay?: number } & (
+  | { text: string }
+  | { audio: { durationMs: number; frequency?: number } }
+  | { toolCall: ToolCall }
+  | { toolCallCancellation: ToolCallCancellation }
+  | { waitForToolResponse: true }
+  | { turnComplete: true }
+);
+
+export type Scenario = {
+  turns: { steps: ScenarioStep[] }[];
+};
+
+type Options = {
+  port: number;
+  scenario: string;
+  echo: boolean;
+};
+
+function parseArgs(argv: string[]): Options {
+  const options: Options = {
+    port: 8765,
+    scenario: resolve(__dirname, "scenarios/default.json"),
+    echo: false,
+  };
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case "--port":
+        options.port = Number(argv[++i]);
+        break;
+      case "--scenario":
+        options.scenario = resolve(process.cwd(), argv[++i]);
+        break;
+      case "--echo":
+        options.echo = true;
+        break;
+      default:
+        throw new Error(`unknown argument "${argv[i]}"`);
+    }
+  }
+  return options;
+}
+
+const wait = (ms: number = 0) => new Promise((res) => setTimeout(res, ms));
+
+/**
+ * a sine tone as base64 encoded 16 bit little-endian pcm, split into 100ms chunks
+ */
+function pcmChunks(durationMs: number, frequency: number = 440): string[] {
+  const chunkSamples = OUTPUT_SAMPLE_RATE / 10;
+  const totalSamples = Math.round((OUTPUT_SAMPLE_RATE * durationMs) / 1000);
+  const chunks: string[] = [];
+  for (let start = 0; start < totalSamples; start += chunkSamples) {
+    const length = Math.min(chunkSamples, totalSamples - start);
+    const buffer = Buffer.alloc(length * 2);
+    for (let i = 0; i < length; i++) {
+      const t = (start + i) / OUTPUT_SAMPLE_RATE;
+      buffer.writeInt16LE(
+        Math.round(Math.sin(2 * Math.PI * frequency * t) * 0.3 * 32767),
+        i * 2,
+      );
+    }
+    chunks.push(buffer.toString("base64"));
+  }
+  return chunks;
+}
+
+const serverContent = (
+  content: ServerContentMessage["serverContent"],
+): ServerContentMessage => ({ serverContent: content });
+
+class MockSession {
+  private turnIndex = 0;
+  private setupDone = false;
+  private pendingToolResponse: (() => void) | null = null;
+  // turns are played one after another, even if the client sends faster
+  private playing: Promise<void> = Promise.resolve();
+
+  constructor(
+    private socket: WebSocket,
+    private scenario: Scenario,
+    private echo: boolean,
+  ) {
+    socket.on("message", (data) => this.onMessage(data.toString()));
+  }
+
+  // the live api answers with binary frames, so does the mock
+  private send(message: LiveIncomingMessage) {
+    if (this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(Buffer.from(JSON.stringify(message)));
+    }
+  }
+
+  private onMessage(raw: string) {
+    let message: any;
+    try {
+      message = JSON.parse(raw);
+    } catch (e) {
+      this.socket.close(1007, "[ERROR] invalid json");
+      return;
+    }
+
+    if (!this.setupDone) {
+      if (!message.setup) {
+        this.socket.close(1007, "[ERROR] the first message must be `setup`");
+        return;
+      }
+      this.setupDone = true;
+      console.log(`setup for model "${message.setup.model}"`);
+      this.send({ setupComplete: {} });
+      return;
+    }
+
+    if (message.toolResponse) {
+      this.pendingToolResponse?.();
+      this.pendingToolResponse = null;
+      return;
+    }
+
+    if (message.clientContent && message.clientContent.turnComplete) {
+      const { turns } = message.clientContent;
+      this.playing = this.playing.then(() =>
+        this.echo ? this.echoTurns(turns) : this.playNextTurn(),
+      );
+    }
+    // realtimeInput is accepted but ignored, there is no speech detection here
+  }
+
+  private async echoTurns(turns: { parts: any[] }[]) {
+    const parts = turns.flatMap((turn) => turn.parts);
+    if (parts.length) {
+      this.send(serverContent({ modelTurn: { parts } }));
+    }
+    this.send(serverContent({ turnComplete: true }));
+  }
+
+  private async playNextTurn() {
+    const { turns } = this.scenario;
+    if (!turns.length) {
+      this.send(serverContent({ turnComplete: true }));
+      return;
+    }
+    const turn = turns[this.turnIndex % turns.length];
+    this.turnIndex++;
+
+    for (const step of turn.steps) {
+      await wait(step.delay);
+      if (this.socket.readyState !== WebSocket.OPEN) {
+        return;
+      }
+      if ("text" in step) {
+        this.send(
+          serverContent({ modelTurn: { parts: [{ text: step.text }] } }),
+        );
+      } else if ("audio" in step) {
+        for (const data of pcmChunks(
+          step.audio.durationMs,
+          step.audio.frequency,
+        )) {
+          this.send(
+            serverContent({
+              modelTurn: {
+                parts: [
+                  {
+                    inlineData: {
+                      mimeType: `audio/pcm;rate=${OUTPUT_SAMPLE_RATE}`,
+                      data,
+                    },
+                  },
+                ],
+              },
+            }),
+          );
+        }
+      } else if ("toolCall" in step) {
+        this.send({ toolCall: step.toolCall });
+      } else if ("toolCallCancellation" in step) {
+        this.send({ toolCallCancellation: step.toolCallCancellation });
+      } else if ("waitForToolResponse" in step) {
+        await new Promise<void>((res) => (this.pendingToolResponse = res));
+      } else if ("turnComplete" in step) {
+        this.send(serverContent({ turnComplete: true }));
+      }
+    }
+  }
+}
+
+function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const scenario: Scenario = options.echo
+    ? { turns: [] }
+    : JSON.parse(readFileSync(options.scenario, "utf8"));
+
+  const server = new WebSocketServer({ port: options.port });
+  server.on("connection", (socket) => {
+    console.log("client connected");
+    new MockSession(socket, scenario, options.echo);
+    socket.on("close", () => console.log("client disconnected"));
+  });
+  server.on("listening", () =>
+    console.log(
+      `mock Live API listening on ws://localhost:${options.port} ${
+        options.echo ? "(echo mode)" : `with scenario ${options.scenario}`
+      }`,
+    ),
+  );
+}
+
+main();
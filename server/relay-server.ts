@@ -0,0 +1,249 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * A relay between the browser and the BidiGenerateContent websocket that adds
+ * the API key on the server, so it never reaches the browser.
+ *
+ *   GEMINI_API_KEY=... RELAY_ALLOWED_ORIGINS=http://localhost:3000 npm run relay
+ *
+ * then set REACT_APP_RELAY_URL=ws://localhost:8080/ws in your .env
+ *
+ * configured through the environment:
+ *   GEMINI_API_KEY               required
+ *   PORT                         default 8080, set by App Engine
+ *   LIVE_API_URL                 the upstream websocket, e.g. the mock server
+ *   RELAY_ALLOWED_ORIGINS        required, comma separated, other origins are refused
+ *   RELAY_ALLOW_ANY_ORIGIN       "true" lets every origin in when no list is set,
+ *                                anyone who finds the relay can then spend the key
+ *   RELAY_TRUSTED_PROXIES        proxies in front of the relay that append to
+ *                                X-Forwarded-For, default 0 (use the socket address)
+ *   RELAY_MAX_SESSIONS           concurrent sessions per client, default 2
+ *   RELAY_MAX_SESSIONS_PER_HOUR  default 30
+ *   RELAY_MAX_SESSION_MINUTES    default 15
+ */
+import { createServer, IncomingMessage } from "http";
+import { RawData, WebSocket, WebSocketServer } from "ws";
+
+const DEFAULT_UPSTREAM =
+  "wss://generativelanguage.googleapis.com/ws/google.ai.generativelanguage.v1alpha.GenerativeService.BidiGenerateContent";
+
+// close codes for policy violations and server errors
+const POLICY_VIOLATION = 1008;
+const INTERNAL_ERROR = 1011;
+
+type Options = {
+  apiKey: string;
+  port: number;
+  upstream: string;
+  // empty when any origin is allowed
+  allowedOrigins: string[];
+  trustedProxies: number;
+  maxSessions: number;
+  maxSessionsPerHour: number;
+  maxSessionDuration: number;
+};
+
+function readOptions(env: NodeJS.ProcessEnv): Options {
+  if (!env.GEMINI_API_KEY) {
+    throw new Error("set GEMINI_API_KEY");
+  }
+  const allowedOrigins = (env.RELAY_ALLOWED_ORIGINS || "")
+    .split(",")
+    .map((o) => o.trim())
+    .filter(Boolean);
+  if (!allowedOrigins.length && env.RELAY_ALLOW_ANY_ORIGIN !== "true") {
+    throw new Error(
+      "set RELAY_ALLOWED_ORIGINS, or RELAY_ALLOW_ANY_ORIGIN=true to relay for any page",
+    );
+  }
+  const number = (value: string | undefined, fallback: number) =>
+    value ? Number(value) : fallback;
+  return {
+    apiKey: env.GEMINI_API_KEY,
+    port: number(env.PORT, 8080),
+    upstream: env.LIVE_API_URL || DEFAULT_UPSTREAM,
+    allowedOrigins,
+    trustedProxies: number(env.RELAY_TRUSTED_PROXIES, 0),
+    maxSessions: number(env.RELAY_MAX_SESSIONS, 2),
+    maxSessionsPerHour: number(env.RELAY_MAX_SESSIONS_PER_HOUR, 30),
+    maxSessionDuration: number(env.RELAY_MAX_SESSION_MINUTES, 15) * 60 * 1000,
+  };
+}
+
+/**
+ * the address the limits are counted by. the client can put anything in
+ * X-Forwarded-For, only the entries appended by our own proxies are trusted:
+ * with `trustedProxies` of them in front, the client is that many from the end
+ */
+function clientId(req: IncomingMessage, trustedProxies: number) {
+  const socketAddress = req.socket.remoteAddress || "unknown";
+  if (trustedProxies < 1) {
+    return socketAddress;
+  }
+  const forwarded = req.headers["x-forwarded-for"];
+  const entries = (Array.isArray(forwarded) ? forwarded.join(",") : forwarded)
+    ?.split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  // fewer entries than proxies, the request did not come through all of them
+  if (!entries || entries.length < trustedProxies) {
+    return socketAddress;
+  }
+  return entries[entries.length - trustedProxies];
+}
+
+/**
+ * keeps track of the sessions of every client
+ */
+class SessionLimits {
+  private active = new Map<string, number>();
+  private started = new Map<string, number[]>();
+
+  constructor(private options: Options) {}
+
+  // the reason the client may not start another session, if any
+  refuse(client: string): string | null {
+    const hourAgo = Date.now() - 60 * 60 * 1000;
+    const recent = (this.started.get(client) || []).filter((t) => t > hourAgo);
+    this.started.set(client, recent);
+
+    if ((this.active.get(client) || 0) >= this.options.maxSessions) {
+      return "too many concurrent sessions";
+    }
+    if (recent.length >= this.options.maxSessionsPerHour) {
+      return "too many sessions this hour";
+    }
+    return null;
+  }
+
+  start(client: string) {
+    this.active.set(client, (this.active.get(client) || 0) + 1);
+    this.started.get(client)?.push(Date.now());
+  }
+
+  end(client: string) {
+    const count = (this.active.get(client) || 1) - 1;
+    if (count > 0) {
+      this.active.set(client, count);
+    } else {
+      this.active.delete(client);
+    }
+  }
+}
+
+// 1005 and 1006 are reported by ws but may not be sent
+const forwardableCode = (code: number) =>
+  code === 1005 ? 1000 : code === 1006 ? INTERNAL_ERROR : code;
+
+function relay(browser: WebSocket, options: Options, onEnd: () => void) {
+  const upstream = new WebSocket(`${options.upstream}?key=${options.apiKey}`);
+  // the browser sends `setup` right away, hold it until upstream is open
+  const pending: { data: RawData; isBinary: boolean }[] = [];
+  let ended = false;
+
+  const end = (code: number, reason: string) => {
+    if (ended) {
+      return;
+    }
+    ended = true;
+    clearTimeout(timeLimit);
+    onEnd();
+    [browser, upstream].forEach((socket) => {
+      if (
+        socket.readyState === WebSocket.OPEN ||
+        socket.readyState === WebSocket.CONNECTING
+      ) {
+        socket.close(forwardableCode(code), reason);
+      }
+    });
+  };
+
+  const timeLimit = setTimeout(
+    () => end(POLICY_VIOLATION, "session time limit reached"),
+    options.maxSessionDuration,
+  );
+
+  browser.on("message", (data, isBinary) => {
+    if (upstream.readyState === WebSocket.OPEN) {
+      upstream.send(data, { binary: isBinary });
+    } else {
+      pending.push({ data, isBinary });
+    }
+  });
+  upstream.on("open", () => {
+    pending
+      .splice(0)
+      .forEach(({ data, isBinary }) =>
+        upstream.send(data, { binary: isBinary }),
+      );
+  });
+  upstream.on("message", (data, isBinary) => {
+    if (browser.readyState === WebSocket.OPEN) {
+      browser.send(data, { binary: isBinary });
+    }
+  });
+
+  // the reason is passed on as is, it tells the browser why the api hung up
+  browser.on("close", (code, reason) => end(code, reason.toString()));
+  upstream.on("close", (code, reason) => end(code, reason.toString()));
+  upstream.on("error", (e) => {
+    console.error("upstream error", e.message);
+    end(INTERNAL_ERROR, "could not reach the Live API");
+  });
+  browser.on("error", () => end(INTERNAL_ERROR, "browser connection failed"));
+}
+
+function main() {
+  const options = readOptions(process.env);
+  const limits = new SessionLimits(options);
+
+  const server = createServer((req, res) => {
+    // for health checks, everything else is websocket only
+    res.writeHead(req.url === "/healthz" ? 200 : 404).end();
+  });
+  const wss = new WebSocketServer({ server, path: "/ws" });
+
+  wss.on("connection", (browser, req) => {
+    const origin = req.headers.origin || "";
+    if (
+      options.allowedOrigins.length &&
+      !options.allowedOrigins.includes(origin)
+    ) {
+      browser.close(POLICY_VIOLATION, "origin not allowed");
+      return;
+    }
+    const client = clientId(req, options.trustedProxies);
+    const refused = limits.refuse(client);
+    if (refused) {
+      console.log(`refused ${client}: ${refused}`);
+      browser.close(POLICY_VIOLATION, refused);
+      return;
+    }
+    limits.start(client);
+    console.log(`session started for ${client}`);
+    relay(browser, options, () => {
+      limits.end(client);
+      console.log(`session ended for ${client}`);
+    });
+  });
+
+  server.listen(options.port, () =>
+    console.log(`relay listening on ws://localhost:${options.port}/ws`),
+  );
+}
+
+main();
@@ -20,15 +20,31 @@ import { LiveAPIProvider } from "./contexts/LiveAPIContext";
 import SidePanel from "./components/side-panel/SidePanel";
 import { Altair } from "./components/altair/Altair";
 import ControlTray from "./components/control-tray/ControlTray";
+import SessionGuardToast from "./components/session-guard-toast/SessionGuardToast";
+import ApiKeyScreen from "./components/api-key-screen/ApiKeyScreen";
+import { useApiKey } from "./hooks/use-api-key";
 import cn from "classnames";
-
-const API_KEY = process.env.REACT_APP_GEMINI_API_KEY as string;
-if (typeof API_KEY !== "string") {
-  throw new Error("set REACT_APP_GEMINI_API_KEY in .env");
-}
+import { HistoryOptions, ReconnectPolicy } from "./lib/multimodal-live-client";
 
 const host = "generativelanguage.googleapis.com";
-const uri = `wss://${host}/ws/google.ai.generativelanguage.v1alpha.GenerativeService.BidiGenerateContent`;
+// REACT_APP_RELAY_URL points the console at a relay that adds the key on the
+// server (`npm run relay`), a relative url such as "/ws" is resolved against the page
+const relayUri = process.env.REACT_APP_RELAY_URL
+  ? new URL(process.env.REACT_APP_RELAY_URL, window.location.href).href.replace(
+      /^http/,
+      "ws",
+    )
+  : null;
+// REACT_APP_LIVE_API_URL can point the console at `npm run mock-server`
+const uri =
+  relayUri ||
+  process.env.REACT_APP_LIVE_API_URL ||
+  `wss://${host}/ws/google.ai.generativelanguage.v1alpha.GenerativeService.BidiGenerateContent`;
+
+// keep this outside of the component so the provider gets a stable reference
+const reconnectPolicy: Partial<ReconnectPolicy> = { maxAttempts: 5 };
+// so the model still knows what was said before the connection dropped
+const historyOptions: Partial<HistoryOptions> = { reseed: true };
 
 function App() {
   // this video reference is used for displaying the active stream, whether that is the webcam or screen capture
@@ -36,37 +52,76 @@ function App() {
   const videoRef = useRef<HTMLVideoElement>(null);
   // either the screen capture, the video or null, if null we hide it
   const [videoStream, setVideoStream] = useState<MediaStream | null>(null);
+  // the key is entered at runtime instead of being baked into the bundle
+  const { apiKey, storage, setApiKey, clearApiKey } = useApiKey();
+  const [editingKey, setEditingKey] = useState(false);
 
   return (
     <div className="App">
-      <LiveAPIProvider url={uri} apiKey={API_KEY}>
-        <div className="streaming-console">
-          <SidePanel />
-          <main>
-            <div className="main-app-area">
-              {/* APP goes here */}
-              <Altair />
-              <video
-                className={cn("stream", {
-                  hidden: !videoRef.current || !videoStream,
-                })}
-                ref={videoRef}
-                autoPlay
-                playsInline
-              />
-            </div>
+      {!relayUri && (!apiKey || editingKey) && (
+        <ApiKeyScreen
+          url={uri}
+          storage={storage}
+          onSubmit={(key, storage) => {
+            setApiKey(key, storage);
+            setEditingKey(false);
+          }}
+          onCancel={apiKey ? () => setEditingKey(false) : undefined}
+          onClear={
+            apiKey
+              ? () => {
+                  clearApiKey();
+                  setEditingKey(false);
+                }
+              : undefined
+          }
+        />
+      )}
+      {(relayUri || apiKey) && (
+        <LiveAPIProvider
+          url={uri}
+          apiKey={relayUri ? undefined : apiKey || undefined}
+          reconnect={reconnectPolicy}
+          history={historyOptions}
+        >
+          <div className="streaming-console">
+            <SidePanel />
+            <main>
+              <div className="main-app-area">
+                {/* APP goes here */}
+                <Altair />
+                <video
+                  className={cn("stream", {
+                    hidden: !videoRef.current || !videoStream,
+                  })}
+                  ref={videoRef}
+                  autoPlay
+                  playsInline
+                />
+              </div>
+              <SessionGuardToast />
 
-            <ControlTray
-              videoRef={videoRef}
-              supportsVideo={true}
-              onVideoStreamChange={setVideoStream}
-              enableEditingSettings={true}
-            >
-              {/* put your own buttons here */}
-            </ControlTray>
-          </main>
-        </div>
-      </LiveAPIProvider>
+              <ControlTray
+                videoRef={videoRef}
+                supportsVideo={true}
+                onVideoStreamChange={setVideoStream}
+                enableEditingSettings={true}
+              >
+                {!relayUri && (
+                  <button
+                    className="action-button material-symbols-outlined"
+                    onClick={() => setEditingKey(true)}
+                    title="Change the API key"
+                  >
+                    key
+                  </button>
+                )}
+                {/* put your own buttons here */}
+              </ControlTray>
+            </main>
+          </div>
+        </LiveAPIProvider>
+      )}
     </div>
   );
 }
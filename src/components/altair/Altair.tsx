@@ -17,7 +17,8 @@ import { type FunctionDeclaration, SchemaType } from "@google/generative-ai";
 import { useEffect, useRef, useState, memo } from "react";
 import vegaEmbed from "vega-embed";
 import { useLiveAPIContext } from "../../contexts/LiveAPIContext";
-import { ToolCall } from "../../multimodal-live-types";
+import { useTool } from "../../hooks/use-tool";
+import { defaultModel } from "../../lib/models";
 
 const declaration: FunctionDeclaration = {
   name: "render_altair",
@@ -37,11 +38,11 @@ const declaration: FunctionDeclaration = {
 
 function AltairComponent() {
   const [jsonString, setJSONString] = useState<string>("");
-  const { client, setConfig } = useLiveAPIContext();
+  const { setConfig } = useLiveAPIContext();
 
   useEffect(() => {
     setConfig({
-      model: "models/gemini-2.0-flash-exp",
+      model: defaultModel,
       generationConfig: {
         responseModalities: "audio",
         speechConfig: {
@@ -58,41 +59,21 @@ function AltairComponent() {
       tools: [
         // there is a free-tier quota for search
         { googleSearch: {} },
-        { functionDeclarations: [declaration] },
+        // render_altair is added by `useTool` below
       ],
     });
   }, [setConfig]);
 
-  useEffect(() => {
-    const onToolCall = (toolCall: ToolCall) => {
-      console.log(`got toolcall`, toolCall);
-      const fc = toolCall.functionCalls.find(
-        (fc) => fc.name === declaration.name,
-      );
-      if (fc) {
-        const str = (fc.args as any).json_graph;
-        setJSONString(str);
-      }
-      // send data for the response of your tool call
-      // in this case Im just saying it was successful
-      if (toolCall.functionCalls.length) {
-        setTimeout(
-          () =>
-            client.sendToolResponse({
-              functionResponses: toolCall.functionCalls.map((fc) => ({
-                response: { output: { success: true } },
-                id: fc.id,
-              })),
-            }),
-          200,
-        );
-      }
-    };
-    client.on("toolcall", onToolCall);
-    return () => {
-      client.off("toolcall", onToolCall);
-    };
-  }, [client]);
+  // whatever the handler returns is sent back to the model as the response
+  useTool<{ json_graph: string }>(declaration, ({ json_graph }, { signal }) => {
+    // throws on invalid json, the model gets the error and can try again
+    JSON.parse(json_graph);
+    // a cancelled call keeps the chart that was there before
+    if (!signal.aborted) {
+      setJSONString(json_graph);
+    }
+    return { success: true };
+  });
 
   const embedRef = useRef<HTMLDivElement>(null);
 
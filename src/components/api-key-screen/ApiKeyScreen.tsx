@@ -0,0 +1,126 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { FormEvent, useState } from "react";
+import { ApiKeyStorage, validateApiKey } from "../../lib/api-key";
+import { defaultModel } from "../../lib/models";
+import "./api-key-screen.scss";
+
+export type ApiKeyScreenProps = {
+  url?: string;
+  storage: ApiKeyStorage;
+  // called with a key that passed the trial connect
+  onSubmit: (apiKey: string, storage: ApiKeyStorage) => void;
+  // only when there already is a key that can be kept or removed
+  onCancel?: () => void;
+  onClear?: () => void;
+};
+
+export default function ApiKeyScreen({
+  url,
+  storage: initialStorage,
+  onSubmit,
+  onCancel,
+  onClear,
+}: ApiKeyScreenProps) {
+  const [apiKey, setApiKey] = useState("");
+  const [storage, setStorage] = useState<ApiKeyStorage>(initialStorage);
+  const [validating, setValidating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (e: FormEvent) => {
+    e.preventDefault();
+    const key = apiKey.trim();
+    if (!key) {
+      return;
+    }
+    setValidating(true);
+    setError(null);
+    const result = await validateApiKey(url, key, {
+      model: defaultModel,
+    });
+    setValidating(false);
+    if (result.valid) {
+      onSubmit(key, storage);
+    } else {
+      setError(result.reason);
+    }
+  };
+
+  return (
+    <div className="api-key-screen">
+      <form className="api-key-card" onSubmit={submit}>
+        <h2>Gemini API key</h2>
+        <p>
+          Paste a key from{" "}
+          <a
+            href="https://aistudio.google.com/apikey"
+            target="_blank"
+            rel="noreferrer"
+          >
+            Google AI Studio
+          </a>
+          . It is only kept in this browser.
+        </p>
+        <input
+          type="password"
+          autoComplete="off"
+          placeholder="API key"
+          value={apiKey}
+          onChange={(e) => setApiKey(e.target.value)}
+          disabled={validating}
+          autoFocus
+        />
+        <fieldset>
+          <label>
+            <input
+              type="radio"
+              name="storage"
+              checked={storage === "session"}
+              onChange={() => setStorage("session")}
+            />
+            forget it when this tab closes
+          </label>
+          <label>
+            <input
+              type="radio"
+              name="storage"
+              checked={storage === "local"}
+              onChange={() => setStorage("local")}
+            />
+            remember it on this device
+          </label>
+        </fieldset>
+        {error && <p className="error">{error}</p>}
+        <div className="actions">
+          {onClear && (
+            <button type="button" className="secondary" onClick={onClear}>
+              Remove key
+            </button>
+          )}
+          {onCancel && (
+            <button type="button" className="secondary" onClick={onCancel}>
+              Cancel
+            </button>
+          )}
+          <button type="submit" disabled={validating || !apiKey.trim()}>
+            {validating ? "Checking..." : "Continue"}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -22,6 +22,7 @@ import { UseMediaStreamResult } from "../../hooks/use-media-stream-mux";
 import { useScreenCapture } from "../../hooks/use-screen-capture";
 import { useWebcam } from "../../hooks/use-webcam";
 import { AudioRecorder } from "../../lib/audio-recorder";
+import { TokenUsage } from "../../lib/token-usage";
 import AudioPulse from "../audio-pulse/AudioPulse";
 import "./control-tray.scss";
 import SettingsDialog from "../settings-dialog/SettingsDialog";
@@ -58,6 +59,28 @@ const MediaStreamButton = memo(
     )
 );
 
+// e.g. "prompt 1200 (AUDIO 1150, TEXT 50)"
+const describeTokens = (
+  label: string,
+  count: number,
+  byModality: Record<string, number>
+) => {
+  const split = Object.entries(byModality)
+    .map(([modality, n]) => `${modality} ${n}`)
+    .join(", ");
+  return `${label} ${count}${split ? ` (${split})` : ""}`;
+};
+
+const describeUsage = (usage: TokenUsage) =>
+  [
+    describeTokens("prompt", usage.promptTokens, usage.promptTokensByModality),
+    describeTokens(
+      "response",
+      usage.responseTokens,
+      usage.responseTokensByModality
+    ),
+  ].join("\n");
+
 function ControlTray({
   videoRef,
   children,
@@ -75,8 +98,17 @@ function ControlTray({
   const renderCanvasRef = useRef<HTMLCanvasElement>(null);
   const connectButtonRef = useRef<HTMLButtonElement>(null);
 
-  const { client, connected, connect, disconnect, volume } =
-    useLiveAPIContext();
+  const {
+    client,
+    connected,
+    reconnecting,
+    congested,
+    connect,
+    disconnect,
+    volume,
+    usage,
+    reportMicVolume,
+  } = useLiveAPIContext();
 
   useEffect(() => {
     if (!connected && connectButtonRef.current) {
@@ -99,15 +131,19 @@ function ControlTray({
         },
       ]);
     };
+    const onVolume = (volume: number) => {
+      setInVolume(volume);
+      reportMicVolume(volume);
+    };
     if (connected && !muted && audioRecorder) {
-      audioRecorder.on("data", onData).on("volume", setInVolume).start();
+      audioRecorder.on("data", onData).on("volume", onVolume).start();
     } else {
       audioRecorder.stop();
     }
     return () => {
-      audioRecorder.off("data", onData).off("volume", setInVolume);
+      audioRecorder.off("data", onData).off("volume", onVolume);
     };
-  }, [connected, client, muted, audioRecorder]);
+  }, [connected, client, muted, audioRecorder, reportMicVolume]);
 
   useEffect(() => {
     if (videoRef.current) {
@@ -199,7 +235,13 @@ function ControlTray({
         {children}
       </nav>
 
-      <div className={cn("connection-container", { connected })}>
+      <div
+        className={cn("connection-container", {
+          connected,
+          reconnecting,
+          congested,
+        })}
+      >
         <div className="connection-button-container">
           <button
             ref={connectButtonRef}
@@ -211,7 +253,18 @@ function ControlTray({
             </span>
           </button>
         </div>
-        <span className="text-indicator">Streaming</span>
+        <span className="text-indicator">
+          {reconnecting
+            ? "Reconnecting"
+            : congested
+            ? "Slow connection"
+            : "Streaming"}
+        </span>
+        {usage.totalTokens > 0 && (
+          <span className="usage-indicator" title={describeUsage(usage)}>
+            {usage.totalTokens.toLocaleString()} tokens
+          </span>
+        )}
       </div>
       {enableEditingSettings ? <SettingsDialog /> : ""}
     </section>
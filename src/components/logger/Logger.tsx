@@ -18,7 +18,7 @@ import "./logger.scss";
 
 import { Part } from "@google/generative-ai";
 import cn from "classnames";
-import { ReactNode } from "react";
+import { ReactNode, useMemo } from "react";
 import { useLoggerStore } from "../../lib/store-logger";
 import SyntaxHighlighter from "react-syntax-highlighter";
 import { vs2015 as dark } from "react-syntax-highlighter/dist/esm/styles/hljs";
@@ -141,11 +141,34 @@ const ClientContentLog = ({ message }: Message) => {
 
 const ToolCallLog = ({ message }: Message) => {
   const { toolCall } = message as ToolCallMessage;
+  const { logs } = useLoggerStore();
+  // the ids the server cancelled later on
+  const cancelled = useMemo(
+    () =>
+      new Set(
+        logs.flatMap(({ message }) =>
+          isToolCallCancellationMessage(message)
+            ? message.toolCallCancellation.ids
+            : [],
+        ),
+      ),
+    [logs],
+  );
   return (
     <div className={cn("rich-log tool-call")}>
       {toolCall.functionCalls.map((fc, i) => (
-        <div key={fc.id} className="part part-functioncall">
-          <h5>Function call: {fc.name}</h5>
+        <div
+          key={fc.id}
+          className={cn("part part-functioncall", {
+            cancelled: cancelled.has(fc.id),
+          })}
+        >
+          <h5>
+            Function call: {fc.name}
+            {cancelled.has(fc.id) && (
+              <span className="cancelled-badge">cancelled</span>
+            )}
+          </h5>
           <SyntaxHighlighter language="json" style={dark}>
             {JSON.stringify(fc, null, "  ")}
           </SyntaxHighlighter>
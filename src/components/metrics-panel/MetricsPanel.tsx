@@ -0,0 +1,116 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { useEffect, useMemo, useState } from "react";
+import { useLiveAPIContext } from "../../contexts/LiveAPIContext";
+import {
+  Percentiles,
+  summarizeMetrics,
+  TurnMetrics,
+} from "../../lib/turn-metrics";
+import "./metrics-panel.scss";
+
+// how many turns are kept for the rolling percentiles
+const WINDOW = 50;
+
+const formatMs = (ms: number) =>
+  ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.round(ms)}ms`;
+
+// what the time to the first audio and text is measured from
+const SINCE_INPUT = "since the end of your speech or typed message";
+
+function MetricRow({
+  label,
+  value,
+  title,
+}: {
+  label: string;
+  value: Percentiles | null;
+  title?: string;
+}) {
+  return (
+    <tr>
+      <th title={title}>{label}</th>
+      {value ? (
+        <>
+          <td>{formatMs(value.p50)}</td>
+          <td>{formatMs(value.p90)}</td>
+          <td>{formatMs(value.p99)}</td>
+        </>
+      ) : (
+        <td colSpan={3} className="empty">
+          –
+        </td>
+      )}
+    </tr>
+  );
+}
+
+export default function MetricsPanel() {
+  const { client, connected } = useLiveAPIContext();
+  const [turns, setTurns] = useState<TurnMetrics[]>([]);
+
+  useEffect(() => {
+    const onTurnMetrics = (metrics: TurnMetrics) =>
+      setTurns((turns) => [...turns, metrics]);
+    client.on("turnmetrics", onTurnMetrics);
+    return () => {
+      client.off("turnmetrics", onTurnMetrics);
+    };
+  }, [client]);
+
+  // new session, new numbers
+  useEffect(() => {
+    if (connected) {
+      setTurns([]);
+    }
+  }, [connected]);
+
+  const summary = useMemo(() => summarizeMetrics(turns, WINDOW), [turns]);
+
+  return (
+    <div className="metrics-panel">
+      <div className="metrics-counts">
+        <span>{summary.turns} turns</span>
+        <span>{summary.interruptions} interrupted</span>
+      </div>
+      <table>
+        <thead>
+          <tr>
+            <th></th>
+            <th>p50</th>
+            <th>p90</th>
+            <th>p99</th>
+          </tr>
+        </thead>
+        <tbody>
+          <MetricRow
+            label="first audio"
+            value={summary.timeToFirstAudio}
+            title={SINCE_INPUT}
+          />
+          <MetricRow
+            label="first text"
+            value={summary.timeToFirstText}
+            title={SINCE_INPUT}
+          />
+          <MetricRow label="turn" value={summary.turnDuration} />
+          <MetricRow label="tool round-trip" value={summary.toolRoundTrip} />
+        </tbody>
+      </table>
+    </div>
+  );
+}
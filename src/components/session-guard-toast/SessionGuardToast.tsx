@@ -0,0 +1,60 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { useEffect, useState } from "react";
+import { useLiveAPIContext } from "../../contexts/LiveAPIContext";
+import "./session-guard-toast.scss";
+
+/**
+ * counts down to a disconnect by one of the session guards
+ */
+export default function SessionGuardToast() {
+  const { guardWarning, keepAlive } = useLiveAPIContext();
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!guardWarning) {
+      return;
+    }
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [guardWarning]);
+
+  if (!guardWarning) {
+    return null;
+  }
+
+  const seconds = Math.max(
+    0,
+    Math.ceil((guardWarning.disconnectAt - now) / 1000),
+  );
+
+  return (
+    <div className="session-guard-toast" role="alert">
+      <span className="material-symbols-outlined">timer</span>
+      <span className="message">
+        {guardWarning.reason === "idle"
+          ? "No mic activity"
+          : "Session time limit reached"}
+        , disconnecting in {seconds}s
+      </span>
+      {guardWarning.reason === "idle" && (
+        <button onClick={keepAlive}>I'm still here</button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { omit } from "lodash";
+import { InputHTMLAttributes, useCallback, useEffect, useState } from "react";
+import { useLiveAPIContext } from "../../contexts/LiveAPIContext";
+import { LiveGenerationConfig } from "../../multimodal-live-types";
+
+type NumberSetting =
+  | "temperature"
+  | "topP"
+  | "topK"
+  | "maxOutputTokens"
+  | "candidateCount"
+  | "presencePenalty"
+  | "frequencyPenalty";
+
+type NumberField = {
+  key: NumberSetting;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  integer?: boolean;
+};
+
+const numberFields: NumberField[] = [
+  { key: "temperature", label: "Temperature", min: 0, max: 2, step: 0.05 },
+  { key: "topP", label: "Top P", min: 0, max: 1, step: 0.05 },
+  { key: "topK", label: "Top K", min: 1, max: 100, step: 1, integer: true },
+  {
+    key: "maxOutputTokens",
+    label: "Max output tokens",
+    min: 1,
+    max: 8192,
+    step: 1,
+    integer: true,
+  },
+  {
+    key: "candidateCount",
+    label: "Candidates",
+    min: 1,
+    max: 8,
+    step: 1,
+    integer: true,
+  },
+  {
+    key: "presencePenalty",
+    label: "Presence penalty",
+    min: -2,
+    max: 2,
+    step: 0.1,
+  },
+  {
+    key: "frequencyPenalty",
+    label: "Frequency penalty",
+    min: -2,
+    max: 2,
+    step: 0.1,
+  },
+];
+
+// BCP-47 language tags such as "en-US" or "cmn-CN"
+const LANGUAGE_CODE = /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/;
+
+// the problem with a value typed into `field`, if any
+function validateNumber(field: NumberField, value: number): string | null {
+  if (!Number.isFinite(value)) {
+    return "not a number";
+  }
+  if (field.integer && !Number.isInteger(value)) {
+    return "must be a whole number";
+  }
+  if (value < field.min || value > field.max) {
+    return `must be between ${field.min} and ${field.max}`;
+  }
+  return null;
+}
+
+type SettingInputProps = {
+  id: string;
+  label: string;
+  value: string | number | undefined;
+  validate: (text: string) => string | null;
+  // called with valid input only, `undefined` goes back to the default
+  onChange: (text: string | undefined) => void;
+  inputProps?: InputHTMLAttributes<HTMLInputElement>;
+};
+
+function SettingInput({
+  id,
+  label,
+  value,
+  validate,
+  onChange,
+  inputProps,
+}: SettingInputProps) {
+  const [draft, setDraft] = useState(value === undefined ? "" : `${value}`);
+
+  // follow the config when it is changed elsewhere, but leave what is being
+  // typed alone, e.g. "0." is already 0
+  useEffect(() => {
+    setDraft((draft) => {
+      const same =
+        draft.trim() !== "" &&
+        (typeof value === "number"
+          ? Number(draft) === value
+          : draft.trim() === value);
+      return same ? draft : value === undefined ? "" : `${value}`;
+    });
+  }, [value]);
+
+  const error = draft.trim() ? validate(draft.trim()) : null;
+
+  return (
+    <div className="setting-input">
+      <label htmlFor={id}>{label}</label>
+      <div className="setting-input-row">
+        <input
+          id={id}
+          className={error ? "invalid" : ""}
+          value={draft}
+          placeholder="default"
+          onChange={(e) => {
+            const text = e.target.value;
+            setDraft(text);
+            if (!text.trim()) {
+              onChange(undefined);
+            } else if (!validate(text.trim())) {
+              onChange(text.trim());
+            }
+          }}
+          {...inputProps}
+        />
+        <button
+          className="material-symbols-outlined"
+          title="Reset to default"
+          disabled={value === undefined && !draft}
+          onClick={() => {
+            setDraft("");
+            onChange(undefined);
+          }}
+        >
+          restart_alt
+        </button>
+      </div>
+      {error && <span className="setting-input-error">{error}</span>}
+    </div>
+  );
+}
+
+export default function GenerationConfigEditor() {
+  const { config, setConfig } = useLiveAPIContext();
+  const generationConfig = config.generationConfig || {};
+
+  const updateConfig = useCallback(
+    (key: NumberSetting, value: number | undefined) => {
+      const current: Partial<LiveGenerationConfig> =
+        config.generationConfig || {};
+      setConfig({
+        ...config,
+        generationConfig:
+          value === undefined
+            ? omit(current, key)
+            : { ...current, [key]: value },
+      });
+    },
+    [config, setConfig],
+  );
+
+  const updateLanguageCode = useCallback(
+    (languageCode: string | undefined) => {
+      const speechConfig = config.generationConfig?.speechConfig || {};
+      setConfig({
+        ...config,
+        generationConfig: {
+          ...config.generationConfig,
+          speechConfig:
+            languageCode === undefined
+              ? omit(speechConfig, "languageCode")
+              : { ...speechConfig, languageCode },
+        },
+      });
+    },
+    [config, setConfig],
+  );
+
+  return (
+    <div className="generation-config">
+      {numberFields.map((field) => (
+        <SettingInput
+          key={field.key}
+          id={`generation-config-${field.key}`}
+          label={field.label}
+          value={generationConfig[field.key]}
+          validate={(text) => validateNumber(field, Number(text))}
+          onChange={(text) =>
+            updateConfig(
+              field.key,
+              text === undefined ? undefined : Number(text),
+            )
+          }
+          inputProps={{
+            type: "number",
+            min: field.min,
+            max: field.max,
+            step: field.step,
+          }}
+        />
+      ))}
+      <SettingInput
+        id="generation-config-language-code"
+        label="Speech language"
+        value={generationConfig.speechConfig?.languageCode}
+        validate={(text) =>
+          LANGUAGE_CODE.test(text) ? null : 'expected a code such as "en-US"'
+        }
+        onChange={updateLanguageCode}
+      />
+    </div>
+  );
+}
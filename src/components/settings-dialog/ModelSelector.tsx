@@ -0,0 +1,74 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { useMemo } from "react";
+import Select from "react-select";
+import { useLiveAPIContext } from "../../contexts/LiveAPIContext";
+import { configForModel, getModel, liveModels } from "../../lib/models";
+
+export default function ModelSelector() {
+  const { config, setConfig } = useLiveAPIContext();
+
+  const modelOptions = useMemo(() => {
+    const options = liveModels.map(({ id, label }) => ({ value: id, label }));
+    // keep a model that was configured in code selectable
+    if (!options.some((o) => o.value === config.model)) {
+      options.push({ value: config.model, label: config.model });
+    }
+    return options;
+  }, [config.model]);
+
+  const selectedOption = {
+    value: config.model,
+    label: getModel(config.model).label,
+  };
+
+  return (
+    <div className="select-group">
+      <label htmlFor="model-selector">Model</label>
+      <Select
+        id="model-selector"
+        className="react-select"
+        classNamePrefix="react-select"
+        styles={{
+          control: (baseStyles) => ({
+            ...baseStyles,
+            background: "var(--Neutral-15)",
+            color: "var(--Neutral-90)",
+            minHeight: "33px",
+            maxHeight: "33px",
+            border: 0,
+          }),
+          option: (styles, { isFocused, isSelected }) => ({
+            ...styles,
+            backgroundColor: isFocused
+              ? "var(--Neutral-30)"
+              : isSelected
+                ? "var(--Neutral-20)"
+                : undefined,
+          }),
+        }}
+        value={selectedOption}
+        options={modelOptions}
+        onChange={(e) => {
+          if (e) {
+            setConfig(configForModel(config, e.value));
+          }
+        }}
+      />
+    </div>
+  );
+}
@@ -1,20 +1,34 @@
-import { useCallback, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import Select from "react-select";
 import { useLiveAPIContext } from "../../contexts/LiveAPIContext";
-
-const responseOptions = [
-  { value: "audio", label: "audio" },
-  { value: "text", label: "text" },
-];
+import { getModel } from "../../lib/models";
 
 export default function ResponseModalitySelector() {
   const { config, setConfig } = useLiveAPIContext();
 
+  // only the modalities the chosen model can answer in
+  const responseOptions = useMemo(
+    () =>
+      getModel(config.model).responseModalities.map((modality) => ({
+        value: modality,
+        label: modality,
+      })),
+    [config.model]
+  );
+
   const [selectedOption, setSelectedOption] = useState<{
     value: string;
     label: string;
   } | null>(responseOptions[0]);
 
+  // follow the config, e.g. when switching models changed the modality
+  useEffect(() => {
+    const modality = config.generationConfig?.responseModalities;
+    if (modality) {
+      setSelectedOption({ value: modality, label: modality });
+    }
+  }, [config]);
+
   const updateConfig = useCallback(
     (modality: "audio" | "text" | undefined) => {
       setConfig({
@@ -53,6 +67,7 @@ export default function ResponseModalitySelector() {
               : undefined,
           }),
         }}
+        value={selectedOption}
         defaultValue={selectedOption}
         options={responseOptions}
         onChange={(e) => {
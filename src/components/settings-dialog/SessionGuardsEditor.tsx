@@ -0,0 +1,59 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { useLiveAPIContext } from "../../contexts/LiveAPIContext";
+import { SessionGuards } from "../../hooks/use-session-guards";
+
+const fields: {
+  key: keyof SessionGuards;
+  label: string;
+  unit: "min" | "s";
+}[] = [
+  { key: "maxDuration", label: "Max session", unit: "min" },
+  { key: "idleTimeout", label: "Idle timeout", unit: "min" },
+  { key: "warningTime", label: "Warn before", unit: "s" },
+];
+
+const msPer = { min: 60 * 1000, s: 1000 };
+
+export default function SessionGuardsEditor() {
+  const { guards, setGuards } = useLiveAPIContext();
+
+  return (
+    <div className="session-guards">
+      {fields.map(({ key, label, unit }) => (
+        <div className="select-group" key={key}>
+          <label htmlFor={`guard-${key}`}>
+            {label} ({unit}, 0 is off)
+          </label>
+          <input
+            id={`guard-${key}`}
+            type="number"
+            min={0}
+            step={1}
+            value={guards[key] / msPer[unit]}
+            onChange={(e) => {
+              const value = Number(e.target.value);
+              if (Number.isFinite(value) && value >= 0) {
+                setGuards({ ...guards, [key]: value * msPer[unit] });
+              }
+            }}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -2,9 +2,11 @@ import {
   ChangeEvent,
   FormEventHandler,
   useCallback,
+  useEffect,
   useMemo,
   useState,
 } from "react";
+import cn from "classnames";
 import "./settings-dialog.scss";
 import { useLiveAPIContext } from "../../contexts/LiveAPIContext";
 import { LiveConfig } from "../../multimodal-live-types";
@@ -14,11 +16,56 @@ import {
   Tool,
 } from "@google/generative-ai";
 import VoiceSelector from "./VoiceSelector";
+import { diffConfig } from "../../lib/config-diff";
 import ResponseModalitySelector from "./ResponseModalitySelector";
+import ModelSelector from "./ModelSelector";
+import SessionGuardsEditor from "./SessionGuardsEditor";
+import GenerationConfigEditor from "./GenerationConfigEditor";
+import ToolMockEditor from "./ToolMockEditor";
 
 export default function SettingsDialog() {
   const [open, setOpen] = useState(false);
-  const { config, setConfig, connected } = useLiveAPIContext();
+  const {
+    config,
+    setConfig,
+    connected,
+    sessionConfig,
+    reconfigure,
+    toolMocks,
+  } = useLiveAPIContext();
+  const [reseed, setReseed] = useState(true);
+  const [applying, setApplying] = useState(false);
+  const [applyError, setApplyError] = useState<string | null>(null);
+  // the function whose mock is being edited
+  const [mocking, setMocking] = useState<string | null>(null);
+
+  // a new session makes it moot
+  useEffect(() => {
+    if (connected) {
+      setApplyError(null);
+    }
+  }, [connected]);
+
+  // what the session would pick up from applying the edited config
+  const changes = useMemo(
+    () => (connected ? diffConfig(sessionConfig, config) : []),
+    [connected, sessionConfig, config]
+  );
+
+  const apply = useCallback(async () => {
+    setApplying(true);
+    setApplyError(null);
+    try {
+      await reconfigure({ reseed });
+    } catch (e) {
+      setApplyError(
+        `Could not apply the settings: ${e instanceof Error ? e.message : e}`
+      );
+    } finally {
+      setApplying(false);
+    }
+  }, [reconfigure, reseed]);
+
   const functionDeclarations: FunctionDeclaration[] = useMemo(() => {
     if (!Array.isArray(config.tools)) {
       return [];
@@ -85,26 +132,48 @@ export default function SettingsDialog() {
         settings
       </button>
       <dialog className="dialog" style={{ display: open ? "block" : "none" }}>
-        <div className={`dialog-container ${connected ? "disabled" : ""}`}>
-          {connected && (
-            <div className="connected-indicator">
-              <p>
-                These settings can only be applied before connecting and will
-                override other settings.
+        <div className="dialog-container">
+          {changes.length > 0 && (
+            <div className="apply-bar">
+              <p className="connected-indicator">
+                Applying restarts the session with the new {changes.join(", ")}.
               </p>
+              <label>
+                <input
+                  type="checkbox"
+                  checked={reseed}
+                  onChange={(e) => setReseed(e.target.checked)}
+                />
+                keep the conversation
+              </label>
+              <button
+                className="apply-button"
+                onClick={apply}
+                disabled={applying}
+              >
+                {applying ? "Applying..." : "Apply"}
+              </button>
             </div>
           )}
+          {/* a failed apply ends the session, so the bar above is gone */}
+          {applyError && <p className="apply-error">{applyError}</p>}
           <div className="mode-selectors">
+            <ModelSelector />
             <ResponseModalitySelector />
             <VoiceSelector />
           </div>
 
+          <h4>Generation config</h4>
+          <GenerationConfigEditor />
+
           <h3>System Instructions</h3>
           <textarea
             className="system"
             onChange={updateConfig}
             value={systemInstruction}
           />
+          <h4>Session guards</h4>
+          <SessionGuardsEditor />
           <h4>Function declarations</h4>
           <div className="function-declarations">
             <div className="fd-rows">
@@ -127,6 +196,18 @@ export default function SettingsDialog() {
                       updateFunctionDescription(fd.name, e.target.value)
                     }
                   />
+                  <button
+                    className={cn("fd-row-mock", {
+                      active: !!toolMocks[fd.name],
+                    })}
+                    onClick={() =>
+                      setMocking(mocking === fd.name ? null : fd.name)
+                    }
+                    title="Answer calls with a mock response"
+                  >
+                    {toolMocks[fd.name] ? "mocked" : "mock"}
+                  </button>
+                  {mocking === fd.name && <ToolMockEditor name={fd.name} />}
                 </div>
               ))}
             </div>
@@ -0,0 +1,88 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { useState } from "react";
+import { useLiveAPIContext } from "../../contexts/LiveAPIContext";
+import { mockError, ToolMock } from "../../lib/tool-mocks";
+
+const placeholders: Record<ToolMock["kind"], string> = {
+  json: '{ "success": true }',
+  template: '{ "forecast": "sunny in {{city}}", "days": "{{days}}" }',
+};
+
+/**
+ * a canned response for one function declaration, sent for every call to
+ * it while no tool is registered under its name
+ */
+export default function ToolMockEditor({ name }: { name: string }) {
+  const { toolMocks, setToolMock, tools } = useLiveAPIContext();
+  const mock = toolMocks[name];
+  const [draft, setDraft] = useState<ToolMock>(
+    () => mock || { kind: "json", source: "" },
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const save = () => {
+    const error = mockError(draft);
+    setError(error);
+    if (!error) {
+      setToolMock(name, draft);
+    }
+  };
+
+  const remove = () => {
+    setToolMock(name, null);
+    setDraft({ kind: "json", source: "" });
+    setError(null);
+  };
+
+  return (
+    <div className="fd-mock">
+      {tools.get(name) && (
+        <p className="fd-mock-note">
+          {name} has a handler, the mock is only used without one
+        </p>
+      )}
+      <div className="fd-mock-kind">
+        {(["json", "template"] as const).map((kind) => (
+          <label key={kind}>
+            <input
+              type="radio"
+              name={`mock-kind-${name}`}
+              checked={draft.kind === kind}
+              onChange={() => setDraft({ ...draft, kind })}
+            />
+            {kind === "json" ? "canned JSON" : "template with {{args}}"}
+          </label>
+        ))}
+      </div>
+      <textarea
+        value={draft.source}
+        spellCheck={false}
+        placeholder={placeholders[draft.kind]}
+        onChange={(e) => {
+          setDraft({ ...draft, source: e.target.value });
+          setError(null);
+        }}
+      />
+      {error && <p className="fd-mock-error">{error}</p>}
+      <div className="fd-mock-actions">
+        <button onClick={save}>{mock ? "Update mock" : "Use mock"}</button>
+        {mock && <button onClick={remove}>Remove mock</button>}
+      </div>
+    </div>
+  );
+}
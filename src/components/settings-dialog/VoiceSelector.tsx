@@ -1,18 +1,21 @@
-import { useCallback, useEffect, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import Select from "react-select";
 import { useLiveAPIContext } from "../../contexts/LiveAPIContext";
-
-const voiceOptions = [
-  { value: "Puck", label: "Puck" },
-  { value: "Charon", label: "Charon" },
-  { value: "Kore", label: "Kore" },
-  { value: "Fenrir", label: "Fenrir" },
-  { value: "Aoede", label: "Aoede" },
-];
+import { getModel } from "../../lib/models";
 
 export default function VoiceSelector() {
   const { config, setConfig } = useLiveAPIContext();
 
+  // only the voices of the chosen model
+  const voiceOptions = useMemo(
+    () =>
+      getModel(config.model).voices.map((voice) => ({
+        value: voice,
+        label: voice,
+      })),
+    [config.model]
+  );
+
   useEffect(() => {
     const voiceName =
       config.generationConfig?.speechConfig?.voiceConfig?.prebuiltVoiceConfig
@@ -24,7 +27,7 @@ export default function VoiceSelector() {
   const [selectedOption, setSelectedOption] = useState<{
     value: string;
     label: string;
-  } | null>(voiceOptions[5]);
+  } | null>(null);
 
   const updateConfig = useCallback(
     (voiceName: string) => {
@@ -33,6 +36,7 @@ export default function VoiceSelector() {
         generationConfig: {
           ...config.generationConfig,
           speechConfig: {
+            ...config.generationConfig?.speechConfig,
             voiceConfig: {
               prebuiltVoiceConfig: {
                 voiceName: voiceName,
@@ -20,8 +20,13 @@ import { useEffect, useRef, useState } from "react";
 import { RiSidebarFoldLine, RiSidebarUnfoldLine } from "react-icons/ri";
 import Select from "react-select";
 import { useLiveAPIContext } from "../../contexts/LiveAPIContext";
+import { useSessionRecorder } from "../../hooks/use-session-recorder";
+import { useToolApprovals } from "../../hooks/use-tool-approvals";
 import { useLoggerStore } from "../../lib/store-logger";
+import { downloadBlob } from "../../lib/utils";
 import Logger, { LoggerFilterType } from "../logger/Logger";
+import MetricsPanel from "../metrics-panel/MetricsPanel";
+import ToolApprovals from "../tool-approvals/ToolApprovals";
 import "./side-panel.scss";
 
 const filterOptions = [
@@ -31,11 +36,13 @@ const filterOptions = [
 ];
 
 export default function SidePanel() {
-  const { connected, client } = useLiveAPIContext();
+  const { connected, reconnecting, client, usage } = useLiveAPIContext();
   const [open, setOpen] = useState(true);
   const loggerRef = useRef<HTMLDivElement>(null);
   const loggerLastHeightRef = useRef<number>(-1);
   const { log, logs } = useLoggerStore();
+  const recorder = useSessionRecorder(client);
+  const approvals = useToolApprovals();
 
   const [textInput, setTextInput] = useState("");
   const [selectedOption, setSelectedOption] = useState<{
@@ -56,6 +63,13 @@ export default function SidePanel() {
     }
   }, [logs]);
 
+  // tool calls waiting for approval should not go unnoticed
+  useEffect(() => {
+    if (approvals.length) {
+      setOpen(true);
+    }
+  }, [approvals.length]);
+
   // listen for log events and store them
   useEffect(() => {
     client.on("log", log);
@@ -64,6 +78,15 @@ export default function SidePanel() {
     };
   }, [client, log]);
 
+  const exportLogs = () => {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+    const json = JSON.stringify({ usage, logs }, null, 2);
+    downloadBlob(
+      new Blob([json], { type: "application/json" }),
+      `live-logs-${timestamp}.json`,
+    );
+  };
+
   const handleSubmit = () => {
     client.send([{ text: textInput }]);
 
@@ -115,12 +138,36 @@ export default function SidePanel() {
             setSelectedOption(e);
           }}
         />
-        <div className={cn("streaming-indicator", { connected })}>
-          {connected
-            ? `🔵${open ? " Streaming" : ""}`
-            : `⏸️${open ? " Paused" : ""}`}
+        <button
+          className={cn("record-button", { recording: recorder.recording })}
+          onClick={recorder.recording ? recorder.stop : recorder.start}
+          title={
+            recorder.recording
+              ? "Stop and download the session recording"
+              : "Record this session"
+          }
+        >
+          <span className="material-symbols-outlined filled">
+            {recorder.recording ? "stop_circle" : "radio_button_checked"}
+          </span>
+        </button>
+        <button
+          className="export-button"
+          onClick={exportLogs}
+          title="Download the logs and token usage"
+        >
+          <span className="material-symbols-outlined">download</span>
+        </button>
+        <div className={cn("streaming-indicator", { connected, reconnecting })}>
+          {reconnecting
+            ? `🟡${open ? " Reconnecting" : ""}`
+            : connected
+              ? `🔵${open ? " Streaming" : ""}`
+              : `⏸️${open ? " Paused" : ""}`}
         </div>
       </section>
+      <MetricsPanel />
+      <ToolApprovals />
       <div className="side-panel-container" ref={loggerRef}>
         <Logger
           filter={(selectedOption?.value as LoggerFilterType) || "none"}
@@ -0,0 +1,134 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { useEffect, useState } from "react";
+import { useLiveAPIContext } from "../../contexts/LiveAPIContext";
+import { useToolApprovals } from "../../hooks/use-tool-approvals";
+import { PendingApproval } from "../../lib/tool-registry";
+import "./tool-approvals.scss";
+
+const pretty = (args: object | undefined) =>
+  JSON.stringify(args || {}, null, 2);
+
+function ApprovalCard({ approval }: { approval: PendingApproval }) {
+  const { tools } = useLiveAPIContext();
+  const { call, expiresAt } = approval;
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(() => pretty(call.args));
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!expiresAt) {
+      return;
+    }
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [expiresAt]);
+
+  const approve = (args?: object) => {
+    const issues = tools.approve(call.id, args);
+    if (issues.length) {
+      setError(issues.map((i) => `${i.path}: ${i.message}`).join("\n"));
+    }
+  };
+
+  const approveEdited = () => {
+    let args: unknown;
+    try {
+      args = JSON.parse(draft);
+    } catch (e) {
+      setError(`invalid json: ${(e as Error).message}`);
+      return;
+    }
+    if (typeof args !== "object" || args === null || Array.isArray(args)) {
+      setError("the args must be a json object");
+      return;
+    }
+    approve(args);
+  };
+
+  const cancelEdit = () => {
+    setEditing(false);
+    setDraft(pretty(call.args));
+    setError(null);
+  };
+
+  return (
+    <div className="approval-card">
+      <header>
+        <h5>{call.name}</h5>
+        {expiresAt && (
+          <span className="expires">
+            rejects in {Math.max(0, Math.ceil((expiresAt - now) / 1000))}s
+          </span>
+        )}
+      </header>
+      {editing ? (
+        <textarea
+          value={draft}
+          spellCheck={false}
+          onChange={(e) => {
+            setDraft(e.target.value);
+            setError(null);
+          }}
+        />
+      ) : (
+        <pre>{pretty(call.args)}</pre>
+      )}
+      {error && <pre className="approval-error">{error}</pre>}
+      <div className="approval-actions">
+        {editing ? (
+          <>
+            <button className="approve" onClick={approveEdited}>
+              Approve edited
+            </button>
+            <button onClick={cancelEdit}>Cancel</button>
+          </>
+        ) : (
+          <>
+            <button className="approve" onClick={() => approve()}>
+              Approve
+            </button>
+            <button onClick={() => setEditing(true)}>Edit args</button>
+            <button className="reject" onClick={() => tools.reject(call.id)}>
+              Reject
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * the calls to tools that require approval, oldest first
+ */
+export default function ToolApprovals() {
+  const approvals = useToolApprovals();
+
+  if (!approvals.length) {
+    return null;
+  }
+
+  return (
+    <section className="tool-approvals">
+      {approvals.map((approval) => (
+        <ApprovalCard key={approval.call.id} approval={approval} />
+      ))}
+    </section>
+  );
+}
@@ -16,21 +16,54 @@
 
 import { createContext, FC, ReactNode, useContext } from "react";
 import { useLiveAPI, UseLiveAPIResults } from "../hooks/use-live-api";
+import {
+  BackpressureOptions,
+  HistoryOptions,
+  OutgoingQueueOptions,
+  ReconnectPolicy,
+} from "../lib/multimodal-live-client";
+import { LiveTransportFactory } from "../lib/transports/transport";
 
 const LiveAPIContext = createContext<UseLiveAPIResults | undefined>(undefined);
 
 export type LiveAPIProviderProps = {
   children: ReactNode;
   url?: string;
-  apiKey: string;
+  // optional when `url` is a relay
+  apiKey?: string;
+  reconnect?: Partial<ReconnectPolicy>;
+  // a stable factory, the client is recreated whenever it changes
+  transport?: LiveTransportFactory;
+  strict?: boolean;
+  // throttles realtime input while the connection can't keep up
+  backpressure?: Partial<BackpressureOptions>;
+  // holds messages sent while (re)connecting
+  queue?: Partial<OutgoingQueueOptions>;
+  // re-seeds the conversation after a reconnect
+  history?: Partial<HistoryOptions>;
 };
 
 export const LiveAPIProvider: FC<LiveAPIProviderProps> = ({
   url,
   apiKey,
+  reconnect,
+  transport,
+  strict,
+  backpressure,
+  queue,
+  history,
   children,
 }) => {
-  const liveAPI = useLiveAPI({ url, apiKey });
+  const liveAPI = useLiveAPI({
+    url,
+    apiKey,
+    reconnect,
+    transport,
+    strict,
+    backpressure,
+    queue,
+    history,
+  });
 
   return (
     <LiveAPIContext.Provider value={liveAPI}>
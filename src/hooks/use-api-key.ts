@@ -0,0 +1,52 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { useCallback, useState } from "react";
+import {
+  ApiKeyStorage,
+  clearApiKey as clearStoredApiKey,
+  loadApiKey,
+  saveApiKey,
+} from "../lib/api-key";
+
+export type UseApiKeyResults = {
+  apiKey: string | null;
+  // where the key is kept, sessionStorage is forgotten with the tab
+  storage: ApiKeyStorage;
+  setApiKey: (apiKey: string, storage: ApiKeyStorage) => void;
+  clearApiKey: () => void;
+};
+
+export function useApiKey(): UseApiKeyResults {
+  const [stored, setStored] = useState(loadApiKey);
+
+  const setApiKey = useCallback((apiKey: string, storage: ApiKeyStorage) => {
+    saveApiKey(apiKey, storage);
+    setStored({ apiKey, storage });
+  }, []);
+
+  const clearApiKey = useCallback(() => {
+    clearStoredApiKey();
+    setStored(null);
+  }, []);
+
+  return {
+    apiKey: stored?.apiKey || null,
+    storage: stored?.storage || "session",
+    setApiKey,
+    clearApiKey,
+  };
+}
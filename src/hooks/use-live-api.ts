@@ -16,39 +16,123 @@
 
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
+  CongestionState,
   MultimodalLiveAPIClientConnection,
   MultimodalLiveClient,
+  TranscriptEntry,
 } from "../lib/multimodal-live-client";
-import { LiveConfig } from "../multimodal-live-types";
+import { FunctionDeclaration } from "@google/generative-ai";
+import { LiveConfig, UsageMetadata } from "../multimodal-live-types";
 import { AudioStreamer } from "../lib/audio-streamer";
+import { defaultModel } from "../lib/models";
+import { mergeDeclarations, ToolRegistry } from "../lib/tool-registry";
+import { addTokenUsage, emptyTokenUsage, TokenUsage } from "../lib/token-usage";
 import { audioContext } from "../lib/utils";
 import VolMeterWorket from "../lib/worklets/vol-meter";
+import {
+  useSessionGuards,
+  UseSessionGuardsResults,
+} from "./use-session-guards";
+import { useToolMocks, UseToolMocksResults } from "./use-tool-mocks";
 
-export type UseLiveAPIResults = {
-  client: MultimodalLiveClient;
-  setConfig: (config: LiveConfig) => void;
-  config: LiveConfig;
-  connected: boolean;
-  connect: () => Promise<void>;
-  disconnect: () => Promise<void>;
-  volume: number;
-};
+export type UseLiveAPIResults = UseSessionGuardsResults &
+  UseToolMocksResults & {
+    client: MultimodalLiveClient;
+    setConfig: (config: LiveConfig) => void;
+    // includes the declarations of the registered tools
+    config: LiveConfig;
+    tools: ToolRegistry;
+    connected: boolean;
+    reconnecting: boolean;
+    // realtime input is being throttled because the connection can't keep up
+    congested: boolean;
+    connect: () => Promise<void>;
+    disconnect: () => Promise<void>;
+    // the config the current session was set up with
+    sessionConfig: LiveConfig | null;
+    // restarts a connected session with `config`, keeping the streams running
+    reconfigure: (options?: { reseed?: boolean }) => Promise<void>;
+    volume: number;
+    transcript: TranscriptEntry[];
+    // tokens used since `connect()`, as reported by the server
+    usage: TokenUsage;
+  };
 
 export function useLiveAPI({
   url,
   apiKey,
+  reconnect,
+  transport,
+  strict,
+  backpressure,
+  queue,
+  history,
 }: MultimodalLiveAPIClientConnection): UseLiveAPIResults {
   const client = useMemo(
-    () => new MultimodalLiveClient({ url, apiKey }),
-    [url, apiKey],
+    () => new MultimodalLiveClient({ url, apiKey, transport }),
+    [url, apiKey, transport],
   );
   const audioStreamerRef = useRef<AudioStreamer | null>(null);
 
+  // these can change without needing a new client
+  useEffect(() => {
+    client.setReconnectPolicy(reconnect);
+  }, [client, reconnect]);
+
+  useEffect(() => {
+    client.strict = !!strict;
+  }, [client, strict]);
+
+  useEffect(() => {
+    client.setBackpressureOptions(backpressure);
+  }, [client, backpressure]);
+
+  useEffect(() => {
+    client.setQueueOptions(queue);
+  }, [client, queue]);
+
+  useEffect(() => {
+    client.setHistoryOptions(history);
+  }, [client, history]);
+
   const [connected, setConnected] = useState(false);
-  const [config, setConfig] = useState<LiveConfig>({
-    model: "models/gemini-2.0-flash-exp",
+  const [reconnecting, setReconnecting] = useState(false);
+  const [congested, setCongested] = useState(false);
+  const [baseConfig, setConfig] = useState<LiveConfig>({
+    model: defaultModel,
   });
   const [volume, setVolume] = useState(0);
+  const [transcript, setTranscript] = useState<TranscriptEntry[]>([]);
+  const [usage, setUsage] = useState<TokenUsage>(emptyTokenUsage);
+  const [sessionConfig, setSessionConfig] = useState<LiveConfig | null>(null);
+
+  const tools = useMemo(() => new ToolRegistry(), []);
+  const [declarations, setDeclarations] = useState<FunctionDeclaration[]>([]);
+  const config = useMemo(
+    () => mergeDeclarations(baseConfig, declarations),
+    [baseConfig, declarations],
+  );
+
+  useEffect(() => {
+    const onChange = () => setDeclarations(tools.declarations());
+    // children register their tools before this effect runs
+    onChange();
+    tools.on("change", onChange);
+    return () => {
+      tools.off("change", onChange);
+    };
+  }, [tools]);
+
+  useEffect(() => tools.attach(client), [tools, client]);
+
+  // a new client, e.g. for a new api key, starts a new session
+  useEffect(() => {
+    return () => {
+      client.disconnect();
+      setConnected(false);
+      setReconnecting(false);
+    };
+  }, [client]);
 
   // register audio for streaming server -> speakers
   useEffect(() => {
@@ -69,8 +153,17 @@ export function useLiveAPI({
   useEffect(() => {
     const onClose = () => {
       setConnected(false);
+      setReconnecting(false);
     };
 
+    const onReconnecting = () => setReconnecting(true);
+    const onReconnected = () => setReconnecting(false);
+    const onCongestion = ({ congested }: CongestionState) =>
+      setCongested(congested);
+
+    const onUsage = (metadata: UsageMetadata) =>
+      setUsage((usage) => addTokenUsage(usage, metadata));
+
     const stopAudioStreamer = () => audioStreamerRef.current?.stop();
 
     const onAudio = (data: ArrayBuffer) =>
@@ -78,12 +171,22 @@ export function useLiveAPI({
 
     client
       .on("close", onClose)
+      .on("reconnecting", onReconnecting)
+      .on("reconnected", onReconnected)
+      .on("congestion", onCongestion)
+      .on("transcript", setTranscript)
+      .on("usage", onUsage)
       .on("interrupted", stopAudioStreamer)
       .on("audio", onAudio);
 
     return () => {
       client
         .off("close", onClose)
+        .off("reconnecting", onReconnecting)
+        .off("reconnected", onReconnected)
+        .off("congestion", onCongestion)
+        .off("transcript", setTranscript)
+        .off("usage", onUsage)
         .off("interrupted", stopAudioStreamer)
         .off("audio", onAudio);
     };
@@ -95,22 +198,59 @@ export function useLiveAPI({
       throw new Error("config has not been set");
     }
     client.disconnect();
-    await client.connect(config);
+    setUsage(emptyTokenUsage);
+    // false when it was disconnected before the session opened
+    if (!(await client.connect(config))) {
+      return;
+    }
+    setSessionConfig(config);
     setConnected(true);
   }, [client, setConnected, config]);
 
   const disconnect = useCallback(async () => {
     client.disconnect();
     setConnected(false);
+    setReconnecting(false);
   }, [setConnected, client]);
 
+  const reconfigure = useCallback(
+    async (options?: { reseed?: boolean }) => {
+      // whatever the old session was saying is moot now
+      audioStreamerRef.current?.stop();
+      try {
+        if (!(await client.reconfigure(config, options))) {
+          return;
+        }
+        setSessionConfig(config);
+      } catch (e) {
+        // the old session is gone either way
+        client.disconnect();
+        setConnected(false);
+        throw e;
+      }
+    },
+    [client, config],
+  );
+
+  const sessionGuards = useSessionGuards(client, connected, disconnect);
+  const toolMocks = useToolMocks(tools, config);
+
   return {
     client,
     config,
     setConfig,
+    tools,
     connected,
+    reconnecting,
+    congested,
     connect,
     disconnect,
+    sessionConfig,
+    reconfigure,
     volume,
+    transcript,
+    usage,
+    ...sessionGuards,
+    ...toolMocks,
   };
 }
@@ -0,0 +1,150 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { MultimodalLiveClient } from "../lib/multimodal-live-client";
+import { isClientContentMessage } from "../multimodal-live-types";
+
+/**
+ * limits that keep a forgotten tab from streaming for hours
+ * all in ms, 0 turns a guard off
+ */
+export type SessionGuards = {
+  maxDuration: number;
+  // disconnect after this long without mic activity
+  idleTimeout: number;
+  // how long before disconnecting the warning shows up
+  warningTime: number;
+};
+
+export const defaultSessionGuards: SessionGuards = {
+  maxDuration: 30 * 60 * 1000,
+  idleTimeout: 5 * 60 * 1000,
+  warningTime: 30 * 1000,
+};
+
+export type SessionGuardWarning = {
+  reason: "duration" | "idle";
+  // epoch ms
+  disconnectAt: number;
+};
+
+// recorder volume above this counts as someone talking
+const MIC_ACTIVITY_THRESHOLD = 0.01;
+
+export type UseSessionGuardsResults = {
+  guards: SessionGuards;
+  setGuards: (guards: SessionGuards) => void;
+  guardWarning: SessionGuardWarning | null;
+  // feed the `volume` events of the audio recorder in here
+  reportMicVolume: (volume: number) => void;
+  // postpones the idle disconnect
+  keepAlive: () => void;
+};
+
+export function useSessionGuards(
+  client: MultimodalLiveClient,
+  connected: boolean,
+  disconnect: () => void,
+): UseSessionGuardsResults {
+  const [guards, setGuards] = useState<SessionGuards>(defaultSessionGuards);
+  const [guardWarning, setGuardWarning] = useState<SessionGuardWarning | null>(
+    null,
+  );
+  const connectedAtRef = useRef(Date.now());
+  const lastActivityRef = useRef(Date.now());
+
+  const keepAlive = useCallback(() => {
+    lastActivityRef.current = Date.now();
+  }, []);
+
+  const reportMicVolume = useCallback((volume: number) => {
+    if (volume > MIC_ACTIVITY_THRESHOLD) {
+      lastActivityRef.current = Date.now();
+    }
+  }, []);
+
+  // typing counts as activity too
+  useEffect(() => {
+    const onFrame = (direction: "in" | "out", message: object) => {
+      if (direction === "out" && isClientContentMessage(message)) {
+        keepAlive();
+      }
+    };
+    client.on("frame", onFrame);
+    return () => {
+      client.off("frame", onFrame);
+    };
+  }, [client, keepAlive]);
+
+  useEffect(() => {
+    if (connected) {
+      connectedAtRef.current = Date.now();
+      lastActivityRef.current = Date.now();
+    }
+  }, [connected]);
+
+  useEffect(() => {
+    if (!connected) {
+      setGuardWarning(null);
+      return;
+    }
+
+    const check = () => {
+      const deadlines: SessionGuardWarning[] = [];
+      if (guards.maxDuration > 0) {
+        deadlines.push({
+          reason: "duration",
+          disconnectAt: connectedAtRef.current + guards.maxDuration,
+        });
+      }
+      if (guards.idleTimeout > 0) {
+        deadlines.push({
+          reason: "idle",
+          disconnectAt: lastActivityRef.current + guards.idleTimeout,
+        });
+      }
+      const [next] = deadlines.sort((a, b) => a.disconnectAt - b.disconnectAt);
+      const now = Date.now();
+
+      if (next && now >= next.disconnectAt) {
+        client.log(
+          "client.guard",
+          next.reason === "idle"
+            ? "no mic activity, disconnecting"
+            : "maximum session duration reached, disconnecting",
+        );
+        disconnect();
+        return;
+      }
+      const warn = next && now >= next.disconnectAt - guards.warningTime;
+      // keep the same object while nothing changed to avoid re-renders
+      setGuardWarning((warning) =>
+        !warn
+          ? null
+          : warning?.reason === next.reason &&
+              warning.disconnectAt === next.disconnectAt
+            ? warning
+            : next,
+      );
+    };
+
+    const interval = setInterval(check, 1000);
+    return () => clearInterval(interval);
+  }, [client, connected, disconnect, guards]);
+
+  return { guards, setGuards, guardWarning, reportMicVolume, keepAlive };
+}
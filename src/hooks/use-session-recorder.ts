@@ -0,0 +1,56 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { MultimodalLiveClient } from "../lib/multimodal-live-client";
+import { SessionRecorder } from "../lib/session-recording";
+import { downloadBlob } from "../lib/utils";
+
+export type UseSessionRecorderResult = {
+  recording: boolean;
+  start: () => void;
+  // stops recording and downloads the session file
+  stop: () => void;
+};
+
+export function useSessionRecorder(
+  client: MultimodalLiveClient,
+): UseSessionRecorderResult {
+  const recorder = useMemo(() => new SessionRecorder(), []);
+  const [recording, setRecording] = useState(false);
+
+  // a new client means a new session
+  useEffect(() => {
+    return () => {
+      recorder.stop();
+      setRecording(false);
+    };
+  }, [client, recorder]);
+
+  const start = useCallback(() => {
+    recorder.start(client);
+    setRecording(true);
+  }, [client, recorder]);
+
+  const stop = useCallback(() => {
+    recorder.stop();
+    setRecording(false);
+    const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+    downloadBlob(recorder.toBlob(), `live-session-${timestamp}.ndjson`);
+  }, [recorder]);
+
+  return { recording, start, stop };
+}
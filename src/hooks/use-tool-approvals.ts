@@ -0,0 +1,39 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { useEffect, useState } from "react";
+import { useLiveAPIContext } from "../contexts/LiveAPIContext";
+import { PendingApproval } from "../lib/tool-registry";
+
+/**
+ * the tool calls waiting for the user, answer them with
+ * `tools.approve` and `tools.reject`
+ */
+export function useToolApprovals(): PendingApproval[] {
+  const { tools } = useLiveAPIContext();
+  const [approvals, setApprovals] = useState<PendingApproval[]>([]);
+
+  useEffect(() => {
+    const onApprovals = () => setApprovals(tools.pendingApprovals());
+    onApprovals();
+    tools.on("approvals", onApprovals);
+    return () => {
+      tools.off("approvals", onApprovals);
+    };
+  }, [tools]);
+
+  return approvals;
+}
@@ -0,0 +1,61 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { omit } from "lodash";
+import { useCallback, useEffect, useState } from "react";
+import { renderMock, ToolMock } from "../lib/tool-mocks";
+import { configDeclarations, ToolRegistry } from "../lib/tool-registry";
+import { LiveConfig } from "../multimodal-live-types";
+
+export type UseToolMocksResults = {
+  // by function name
+  toolMocks: Record<string, ToolMock>;
+  // null removes the mock
+  setToolMock: (name: string, mock: ToolMock | null) => void;
+};
+
+/**
+ * answers the calls to functions of `config` that have a mock but no
+ * registered tool, so declarations can be tried out before their handler
+ * is written
+ */
+export function useToolMocks(
+  tools: ToolRegistry,
+  config: LiveConfig,
+): UseToolMocksResults {
+  const [toolMocks, setToolMocks] = useState<Record<string, ToolMock>>({});
+
+  const setToolMock = useCallback(
+    (name: string, mock: ToolMock | null) =>
+      setToolMocks((mocks) =>
+        mock ? { ...mocks, [name]: mock } : omit(mocks, name),
+      ),
+    [],
+  );
+
+  useEffect(() => {
+    const removers = configDeclarations(config)
+      .filter((declaration) => toolMocks[declaration.name])
+      .map((declaration) =>
+        tools.mock(declaration, (args) =>
+          renderMock(toolMocks[declaration.name], args),
+        ),
+      );
+    return () => removers.forEach((remove) => remove());
+  }, [tools, config, toolMocks]);
+
+  return { toolMocks, setToolMock };
+}
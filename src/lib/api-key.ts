@@ -0,0 +1,90 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { LiveConfig } from "../multimodal-live-types";
+import { MultimodalLiveClient } from "./multimodal-live-client";
+import { LiveTransportCloseEvent } from "./transports/transport";
+
+/**
+ * the api key is entered at runtime and kept in web storage,
+ * so it never ends up in the bundle
+ */
+export type ApiKeyStorage = "session" | "local";
+
+const STORAGE_KEY = "live-api-key";
+
+const storages: Record<ApiKeyStorage, () => Storage> = {
+  session: () => window.sessionStorage,
+  local: () => window.localStorage,
+};
+
+export function loadApiKey(): {
+  apiKey: string;
+  storage: ApiKeyStorage;
+} | null {
+  for (const storage of ["session", "local"] as ApiKeyStorage[]) {
+    const apiKey = storages[storage]().getItem(STORAGE_KEY);
+    if (apiKey) {
+      return { apiKey, storage };
+    }
+  }
+  return null;
+}
+
+export function saveApiKey(apiKey: string, storage: ApiKeyStorage) {
+  clearApiKey();
+  storages[storage]().setItem(STORAGE_KEY, apiKey);
+}
+
+export function clearApiKey() {
+  Object.values(storages).forEach((s) => s().removeItem(STORAGE_KEY));
+}
+
+/**
+ * tries to set up a session with `apiKey` and closes it again,
+ * resolves with the reason when the key is rejected
+ */
+export function validateApiKey(
+  url: string | undefined,
+  apiKey: string,
+  config: LiveConfig,
+  timeout: number = 10000,
+): Promise<{ valid: true } | { valid: false; reason: string }> {
+  const client = new MultimodalLiveClient({ url, apiKey });
+
+  return new Promise((resolve) => {
+    const done = (
+      result: { valid: true } | { valid: false; reason: string },
+    ) => {
+      clearTimeout(timer);
+      client.removeAllListeners();
+      client.disconnect();
+      resolve(result);
+    };
+    const timer = setTimeout(
+      () => done({ valid: false, reason: "the server did not answer in time" }),
+      timeout,
+    );
+    client
+      .on("setupcomplete", () => done({ valid: true }))
+      .on("close", ({ code, reason }: LiveTransportCloseEvent) =>
+        done({ valid: false, reason: reason || `closed with code ${code}` }),
+      );
+    client
+      .connect(config)
+      .catch((e: Error) => done({ valid: false, reason: e.message }));
+  });
+}
@@ -0,0 +1,77 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { diffConfig } from "./config-diff";
+
+describe("diffConfig", () => {
+  it("finds nothing in equal configs", () => {
+    const config = {
+      model: "models/a",
+      generationConfig: { temperature: 1 },
+    };
+    expect(diffConfig(config, { ...config })).toEqual([]);
+  });
+
+  it("reports the dotted paths of nested changes", () => {
+    expect(
+      diffConfig(
+        {
+          model: "models/a",
+          generationConfig: {
+            temperature: 1,
+            speechConfig: {
+              voiceConfig: { prebuiltVoiceConfig: { voiceName: "Puck" } },
+            },
+          },
+        },
+        {
+          model: "models/a",
+          generationConfig: {
+            temperature: 0.5,
+            speechConfig: {
+              voiceConfig: { prebuiltVoiceConfig: { voiceName: "Aoede" } },
+            },
+          },
+        },
+      ),
+    ).toEqual([
+      "generationConfig.temperature",
+      "generationConfig.speechConfig.voiceConfig.prebuiltVoiceConfig.voiceName",
+    ]);
+  });
+
+  it("reports fields that were added or removed", () => {
+    expect(
+      diffConfig(
+        { model: "models/a", systemInstruction: { parts: [] } },
+        { model: "models/a", tools: [] },
+      ),
+    ).toEqual(["systemInstruction", "tools"]);
+  });
+
+  it("compares arrays as a whole", () => {
+    expect(
+      diffConfig(
+        { tools: [{ googleSearch: {} }, { codeExecution: {} }] },
+        { tools: [{ googleSearch: {} }] },
+      ),
+    ).toEqual(["tools"]);
+  });
+
+  it("treats a missing config as an empty one", () => {
+    expect(diffConfig(null, { model: "models/a" })).toEqual(["model"]);
+  });
+});
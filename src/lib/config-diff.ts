@@ -0,0 +1,45 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { isEqual, isPlainObject } from "lodash";
+
+/**
+ * the dotted paths at which two configs differ, e.g.
+ * `["systemInstruction", "generationConfig.speechConfig"]`
+ * arrays, such as `tools`, are compared as a whole
+ */
+export function diffConfig(
+  a: object | null | undefined,
+  b: object | null | undefined,
+  prefix: string = "",
+): string[] {
+  const left = (a || {}) as Record<string, unknown>;
+  const right = (b || {}) as Record<string, unknown>;
+  const keys = Array.from(
+    new Set([...Object.keys(left), ...Object.keys(right)]),
+  );
+
+  return keys.flatMap((key) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isEqual(left[key], right[key])) {
+      return [];
+    }
+    if (isPlainObject(left[key]) && isPlainObject(right[key])) {
+      return diffConfig(left[key] as object, right[key] as object, path);
+    }
+    return [path];
+  });
+}
@@ -0,0 +1,120 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { validateIncomingMessage } from "./message-validation";
+
+describe("validateIncomingMessage", () => {
+  it("accepts the messages the Live API sends", () => {
+    [
+      { setupComplete: {} },
+      {
+        serverContent: {
+          modelTurn: {
+            parts: [
+              { text: "hi" },
+              {
+                inlineData: { mimeType: "audio/pcm;rate=24000", data: "AAAA" },
+              },
+            ],
+          },
+        },
+      },
+      { serverContent: { turnComplete: true } },
+      {
+        toolCall: {
+          functionCalls: [{ id: "1", name: "render", args: { a: 1 } }],
+        },
+      },
+      { toolCallCancellation: { ids: ["1"] } },
+      {
+        serverContent: { turnComplete: true },
+        usageMetadata: { promptTokenCount: 3, totalTokenCount: 5 },
+      },
+    ].forEach((message) =>
+      expect(validateIncomingMessage(message)).toEqual({
+        errors: [],
+        drift: [],
+      }),
+    );
+  });
+
+  it("reports mismatches with the path to the offending value", () => {
+    const { errors } = validateIncomingMessage({
+      serverContent: {
+        modelTurn: {
+          parts: [{ inlineData: { mimeType: "audio/pcm", data: 42 } }],
+        },
+      },
+    });
+    expect(errors).toEqual([
+      {
+        path: "$.serverContent.modelTurn.parts[0].inlineData.data",
+        message: "expected string, got number",
+      },
+    ]);
+  });
+
+  it("reports missing required fields", () => {
+    const { errors } = validateIncomingMessage({
+      toolCall: { functionCalls: [{ id: "1", args: {} }] },
+    });
+    expect(errors).toEqual([
+      {
+        path: "$.toolCall.functionCalls[0].name",
+        message: "missing required field",
+      },
+    ]);
+  });
+
+  it("rejects a message with more than one type, except for annotations", () => {
+    expect(
+      validateIncomingMessage({
+        setupComplete: {},
+        toolCallCancellation: { ids: [] },
+      }).errors,
+    ).toEqual([
+      {
+        path: "$",
+        message:
+          "expected a single message type, got setupComplete, toolCallCancellation",
+      },
+    ]);
+  });
+
+  it("reports unknown fields and message types as drift, not errors", () => {
+    expect(
+      validateIncomingMessage({
+        serverContent: { turnComplete: true, mood: "good" },
+      }),
+    ).toEqual({
+      errors: [],
+      drift: [{ path: "$.serverContent.mood", message: "unexpected field" }],
+    });
+    expect(validateIncomingMessage({ goAway: {} })).toEqual({
+      errors: [],
+      drift: [{ path: "$", message: "unrecognized message type goAway" }],
+    });
+  });
+
+  it("rejects what is not a message at all", () => {
+    expect(validateIncomingMessage([]).errors).toEqual([
+      { path: "$", message: "expected object, got array" },
+    ]);
+    expect(validateIncomingMessage({}).errors).toEqual([
+      { path: "$", message: "empty message" },
+    ]);
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * runtime validation of the messages the server sends
+ * every mismatch is reported with the path to the offending value, e.g.
+ * `$.serverContent.modelTurn.parts[0].inlineData.data: expected string, got number`
+ */
+
+export type ValidationIssue = {
+  path: string;
+  message: string;
+};
+
+export type ValidationResult = {
+  // the message does not have the expected shape
+  errors: ValidationIssue[];
+  // the message has fields this client does not know about (yet)
+  drift: ValidationIssue[];
+};
+
+type Check = (value: unknown, path: string, result: ValidationResult) => void;
+
+const describe = (value: unknown) =>
+  value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  describe(value) === "object";
+
+const primitive =
+  (kind: "string" | "number" | "boolean"): Check =>
+  (value, path, { errors }) => {
+    if (typeof value !== kind) {
+      errors.push({
+        path,
+        message: `expected ${kind}, got ${describe(value)}`,
+      });
+    }
+  };
+
+const string = primitive("string");
+const number = primitive("number");
+const boolean = primitive("boolean");
+
+// objects whose content is not part of the protocol, such as function args
+const anyObject: Check = (value, path, { errors }) => {
+  if (!isObject(value)) {
+    errors.push({ path, message: `expected object, got ${describe(value)}` });
+  }
+};
+
+const arrayOf =
+  (item: Check): Check =>
+  (value, path, result) => {
+    if (!Array.isArray(value)) {
+      result.errors.push({
+        path,
+        message: `expected array, got ${describe(value)}`,
+      });
+      return;
+    }
+    value.forEach((v, i) => item(v, `${path}[${i}]`, result));
+  };
+
+const object =
+  (
+    required: Record<string, Check>,
+    optional: Record<string, Check> = {},
+  ): Check =>
+  (value, path, result) => {
+    if (!isObject(value)) {
+      result.errors.push({
+        path,
+        message: `expected object, got ${describe(value)}`,
+      });
+      return;
+    }
+    Object.entries(required).forEach(([key, check]) => {
+      if (value[key] === undefined) {
+        result.errors.push({
+          path: `${path}.${key}`,
+          message: "missing required field",
+        });
+        return;
+      }
+      check(value[key], `${path}.${key}`, result);
+    });
+    Object.entries(value).forEach(([key, v]) => {
+      if (key in required) {
+        return;
+      }
+      if (key in optional) {
+        optional[key](v, `${path}.${key}`, result);
+        return;
+      }
+      result.drift.push({
+        path: `${path}.${key}`,
+        message: "unexpected field",
+      });
+    });
+  };
+
+const part = object(
+  {},
+  {
+    text: string,
+    thought: boolean,
+    inlineData: object({ mimeType: string, data: string }),
+    executableCode: object({ language: string, code: string }),
+    codeExecutionResult: object({ outcome: string, output: string }),
+    functionCall: object({ name: string }, { args: anyObject, id: string }),
+  },
+);
+
+const serverContent: Check = (value, path, result) => {
+  object(
+    {},
+    {
+      modelTurn: object({ parts: arrayOf(part) }),
+      turnComplete: boolean,
+      interrupted: boolean,
+    },
+  )(value, path, result);
+  if (
+    isObject(value) &&
+    !["modelTurn", "turnComplete", "interrupted"].some((key) => key in value)
+  ) {
+    result.errors.push({
+      path,
+      message: "expected one of modelTurn, turnComplete or interrupted",
+    });
+  }
+};
+
+const modalityTokenCounts = arrayOf(
+  object({ modality: string }, { tokenCount: number }),
+);
+
+const usageMetadata = object(
+  {},
+  {
+    promptTokenCount: number,
+    cachedContentTokenCount: number,
+    responseTokenCount: number,
+    toolUsePromptTokenCount: number,
+    thoughtsTokenCount: number,
+    totalTokenCount: number,
+    promptTokensDetails: modalityTokenCounts,
+    cacheTokensDetails: modalityTokenCounts,
+    responseTokensDetails: modalityTokenCounts,
+    toolUsePromptTokensDetails: modalityTokenCounts,
+  },
+);
+
+const liveFunctionCall = object({ id: string, name: string, args: anyObject });
+
+/**
+ * a validator for every variant of `LiveIncomingMessage`, by its top-level key
+ */
+export const incomingMessageValidators: Record<string, Check> = {
+  setupComplete: object({}),
+  serverContent,
+  toolCall: object({ functionCalls: arrayOf(liveFunctionCall) }),
+  toolCallCancellation: object({ ids: arrayOf(string) }),
+  usageMetadata,
+};
+
+// may accompany any other message type
+export const messageAnnotations = ["usageMetadata"];
+
+export function validateIncomingMessage(message: unknown): ValidationResult {
+  const result: ValidationResult = { errors: [], drift: [] };
+  if (!isObject(message)) {
+    result.errors.push({
+      path: "$",
+      message: `expected object, got ${describe(message)}`,
+    });
+    return result;
+  }
+  const keys = Object.keys(message);
+  const known = keys.filter((key) => key in incomingMessageValidators);
+  if (!keys.length) {
+    result.errors.push({ path: "$", message: "empty message" });
+    return result;
+  }
+  // types the client does not know yet are passed on, not rejected
+  if (!known.length) {
+    result.drift.push({
+      path: "$",
+      message: `unrecognized message type ${keys.join(", ")}`,
+    });
+    return result;
+  }
+  const types = known.filter((key) => !messageAnnotations.includes(key));
+  if (types.length > 1) {
+    result.errors.push({
+      path: "$",
+      message: `expected a single message type, got ${types.join(", ")}`,
+    });
+  }
+  keys.forEach((key) => {
+    const check = incomingMessageValidators[key];
+    if (check) {
+      check(message[key], `$.${key}`, result);
+    } else {
+      result.drift.push({ path: `$.${key}`, message: "unexpected field" });
+    }
+  });
+  return result;
+}
+
+export const formatIssue = ({ path, message }: ValidationIssue) =>
+  `${path}: ${message}`;
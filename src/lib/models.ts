@@ -0,0 +1,143 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { LiveConfig, LiveGenerationConfig } from "../multimodal-live-types";
+
+export type ResponseModality = LiveGenerationConfig["responseModalities"];
+
+/**
+ * what a Live API model can do, the settings only offer what the chosen model supports
+ */
+export type LiveModel = {
+  id: string;
+  label: string;
+  responseModalities: ResponseModality[];
+  voices: string[];
+  tools: {
+    functionCalling: boolean;
+    googleSearch: boolean;
+    codeExecution: boolean;
+  };
+};
+
+const halfCascadeVoices = ["Puck", "Charon", "Kore", "Fenrir", "Aoede"];
+
+export const liveModels: LiveModel[] = [
+  {
+    id: "models/gemini-2.0-flash-exp",
+    label: "Gemini 2.0 Flash (experimental)",
+    responseModalities: ["audio", "text"],
+    voices: halfCascadeVoices,
+    tools: { functionCalling: true, googleSearch: true, codeExecution: true },
+  },
+  {
+    id: "models/gemini-2.0-flash-live-001",
+    label: "Gemini 2.0 Flash Live",
+    responseModalities: ["audio", "text"],
+    voices: [...halfCascadeVoices, "Leda", "Orus", "Zephyr"],
+    tools: { functionCalling: true, googleSearch: true, codeExecution: true },
+  },
+  {
+    id: "models/gemini-2.5-flash-preview-native-audio-dialog",
+    label: "Gemini 2.5 Flash native audio (preview)",
+    responseModalities: ["audio"],
+    voices: [
+      ...halfCascadeVoices,
+      "Leda",
+      "Orus",
+      "Zephyr",
+      "Callirrhoe",
+      "Autonoe",
+      "Enceladus",
+      "Iapetus",
+      "Umbriel",
+      "Algieba",
+      "Despina",
+      "Erinome",
+      "Algenib",
+      "Rasalgethi",
+      "Laomedeia",
+      "Achernar",
+      "Alnilam",
+      "Schedar",
+      "Gacrux",
+      "Pulcherrima",
+      "Achird",
+      "Zubenelgenubi",
+      "Vindemiatrix",
+      "Sadachbia",
+      "Sadaltager",
+      "Sulafat",
+    ],
+    tools: { functionCalling: true, googleSearch: true, codeExecution: false },
+  },
+];
+
+export const defaultModel = liveModels[0].id;
+
+// models that are not in the registry are assumed to support everything
+const anyModel = (id: string): LiveModel => ({
+  id,
+  label: id,
+  responseModalities: ["audio", "text"],
+  voices: halfCascadeVoices,
+  tools: { functionCalling: true, googleSearch: true, codeExecution: true },
+});
+
+export const getModel = (id: string): LiveModel =>
+  liveModels.find((m) => m.id === id) || anyModel(id);
+
+/**
+ * switches `config` to another model, dropping the settings it does not support
+ */
+export function configForModel(config: LiveConfig, id: string): LiveConfig {
+  const model = getModel(id);
+  const { generationConfig = {}, tools } = config;
+
+  const modality = generationConfig.responseModalities;
+  const voiceName =
+    generationConfig.speechConfig?.voiceConfig?.prebuiltVoiceConfig?.voiceName;
+
+  return {
+    ...config,
+    model: id,
+    generationConfig: {
+      ...generationConfig,
+      responseModalities:
+        modality && !model.responseModalities.includes(modality)
+          ? model.responseModalities[0]
+          : modality,
+      speechConfig:
+        voiceName && !model.voices.includes(voiceName)
+          ? {
+              ...generationConfig.speechConfig,
+              voiceConfig: {
+                prebuiltVoiceConfig: { voiceName: model.voices[0] },
+              },
+            }
+          : generationConfig.speechConfig,
+    },
+    tools: tools?.filter((tool) =>
+      "googleSearch" in tool
+        ? model.tools.googleSearch
+        : "codeExecution" in tool
+          ? model.tools.codeExecution
+          : "functionDeclarations" in tool
+            ? model.tools.functionCalling
+            : true,
+    ),
+  };
+}
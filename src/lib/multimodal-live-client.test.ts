@@ -0,0 +1,627 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { MultimodalLiveClient } from "./multimodal-live-client";
+import { fakeServer, setupOnly, wait } from "./test-utils";
+import { MemoryTransport } from "./transports/memory-transport";
+import { LiveTransportFactory } from "./transports/transport";
+
+const config = { model: "models/test" };
+
+const audio = (data: string) => [{ mimeType: "audio/pcm;rate=16000", data }];
+
+describe("reconnecting", () => {
+  it("backs off exponentially and gives up after maxAttempts", async () => {
+    // every session after the first one fails before it is set up
+    const server = fakeServer((connection, message, index) => {
+      if (message.setup) {
+        if (index === 0) {
+          connection.reply({ setupComplete: {} });
+        } else {
+          connection.close(1011, "unavailable");
+        }
+      }
+    });
+    const client = new MultimodalLiveClient({
+      transport: server.transport,
+      reconnect: { initialDelay: 10, maxDelay: 25, jitter: 0, maxAttempts: 3 },
+    });
+    const delays: number[] = [];
+    client.on("reconnecting", (_, delay) => delays.push(delay));
+    const closed = new Promise<number>((resolve) =>
+      client.on("close", ({ code }) => resolve(code)),
+    );
+
+    await client.connect(config);
+    await wait(10);
+    server.connections[0].close(1011, "going away");
+
+    expect(await closed).toBe(1011);
+    expect(delays).toEqual([10, 20, 25]);
+    expect(server.connections).toHaveLength(4);
+  });
+
+  it("does not reconnect after a close with a code that is not retryable", async () => {
+    const server = fakeServer();
+    const client = new MultimodalLiveClient({
+      transport: server.transport,
+      reconnect: { initialDelay: 10 },
+    });
+    const reconnecting = jest.fn();
+    client.on("reconnecting", reconnecting);
+    const closed = new Promise((resolve) => client.on("close", resolve));
+
+    await client.connect(config);
+    await wait(10);
+    server.connections[0].close(1008, "policy violation");
+    await closed;
+
+    expect(reconnecting).not.toHaveBeenCalled();
+    expect(server.connections).toHaveLength(1);
+  });
+
+  it("abandons a reconnect attempt that is still opening on disconnect()", async () => {
+    let client: MultimodalLiveClient;
+    const server = fakeServer(setupOnly);
+    const transport: LiveTransportFactory = (url) => {
+      const created = server.transport(url);
+      // the retry, disconnect before it had a chance to open
+      if (server.connections.length === 2) {
+        queueMicrotask(() => client.disconnect());
+      }
+      return created;
+    };
+    client = new MultimodalLiveClient({
+      transport,
+      reconnect: { initialDelay: 10, jitter: 0 },
+    });
+    const reconnected = jest.fn();
+    const close = jest.fn();
+    client.on("reconnected", reconnected).on("close", close);
+
+    await client.connect(config);
+    await wait(10);
+    server.connections[0].close(1011, "going away");
+    await wait(50);
+
+    expect(server.connections).toHaveLength(2);
+    expect(server.connections[1].received).toEqual([]);
+    expect(reconnected).not.toHaveBeenCalled();
+    expect(client.transport).toBeNull();
+    expect(close).toHaveBeenCalledTimes(1);
+    expect(close).toHaveBeenCalledWith({ code: 1011, reason: "going away" });
+  });
+
+  it("closes a session waiting to reconnect on disconnect()", async () => {
+    const server = fakeServer();
+    const client = new MultimodalLiveClient({
+      transport: server.transport,
+      reconnect: { initialDelay: 20, jitter: 0 },
+    });
+    const close = jest.fn();
+    client.on("close", close);
+
+    await client.connect(config);
+    await wait(10);
+    server.connections[0].close(1011, "going away");
+    await wait(5);
+    expect(close).not.toHaveBeenCalled();
+    client.disconnect();
+    await wait(50);
+
+    expect(server.connections).toHaveLength(1);
+    expect(close).toHaveBeenCalledTimes(1);
+    expect(close).toHaveBeenCalledWith({ code: 1011, reason: "going away" });
+  });
+});
+
+describe("history", () => {
+  it("replays the transcript once the dropped session is set up again", async () => {
+    const server = fakeServer((connection, message) => {
+      setupOnly(connection, message);
+      if (message.clientContent?.turnComplete) {
+        connection.reply({
+          serverContent: { modelTurn: { parts: [{ text: "hello there" }] } },
+        });
+        connection.reply({ serverContent: { turnComplete: true } });
+      }
+    });
+    const client = new MultimodalLiveClient({
+      transport: server.transport,
+      reconnect: { initialDelay: 10, jitter: 0 },
+      history: { reseed: true },
+    });
+    const reconnected = new Promise<void>((resolve) =>
+      client.on("reconnected", () => resolve()),
+    );
+
+    await client.connect(config);
+    await wait(10);
+    await client.sendAndAwaitTurn([{ text: "hi" }]);
+    server.connections[0].close(1011, "going away");
+    await reconnected;
+    await wait(10);
+
+    const [setup, replay] = server.connections[1].received;
+    expect(setup).toEqual({ setup: config });
+    expect(replay).toEqual({
+      clientContent: {
+        turns: [
+          { role: "user", parts: [{ text: "hi" }] },
+          { role: "model", parts: [{ text: "hello there" }] },
+        ],
+        turnComplete: false,
+      },
+    });
+  });
+});
+
+describe("outgoing queue", () => {
+  it("drops messages while no session is on its way", async () => {
+    const server = fakeServer();
+    const client = new MultimodalLiveClient({ transport: server.transport });
+    const dropped = jest.fn();
+    client.on("dropped", dropped);
+
+    client.send([{ text: "too early" }]);
+    await client.connect(config);
+    await wait(10);
+
+    expect(dropped).toHaveBeenCalledWith(1);
+    expect(server.connections[0].received).toEqual([{ setup: config }]);
+    expect(client.getTranscript()).toEqual([]);
+  });
+
+  it("holds messages sent while connecting until the session is set up", async () => {
+    const server = fakeServer();
+    const client = new MultimodalLiveClient({ transport: server.transport });
+
+    const connected = client.connect(config);
+    client.send([{ text: "first" }]);
+    client.sendRealtimeInput(audio("AAAA"));
+    await connected;
+    await wait(10);
+
+    expect(server.connections[0].received).toEqual([
+      { setup: config },
+      {
+        clientContent: {
+          turns: [{ role: "user", parts: [{ text: "first" }] }],
+          turnComplete: true,
+        },
+      },
+      { realtimeInput: { mediaChunks: audio("AAAA") } },
+    ]);
+  });
+
+  it("drops the oldest realtimeInput first when the queue is full", async () => {
+    const server = fakeServer();
+    const client = new MultimodalLiveClient({
+      transport: server.transport,
+      queue: { maxSize: 2 },
+    });
+    const dropped = jest.fn();
+    client.on("dropped", dropped);
+
+    const connected = client.connect(config);
+    client.sendRealtimeInput(audio("AAAA"));
+    client.send([{ text: "one" }]);
+    client.send([{ text: "two" }]);
+    await connected;
+    await wait(10);
+
+    expect(dropped).toHaveBeenCalledWith(1);
+    expect(
+      server.connections[0].received.map((m) => Object.keys(m)[0]),
+    ).toEqual(["setup", "clientContent", "clientContent"]);
+  });
+
+  it("drops realtimeInput that went stale while queued", async () => {
+    // the server takes its time to set the session up
+    const server = fakeServer((connection, message) => {
+      if (message.setup) {
+        setTimeout(() => connection.reply({ setupComplete: {} }), 30);
+      }
+    });
+    const client = new MultimodalLiveClient({
+      transport: server.transport,
+      queue: { maxRealtimeAge: 10 },
+    });
+
+    const connected = client.connect(config);
+    client.sendRealtimeInput(audio("AAAA"));
+    client.send([{ text: "still relevant" }]);
+    await connected;
+    await wait(50);
+
+    expect(
+      server.connections[0].received.map((m) => Object.keys(m)[0]),
+    ).toEqual(["setup", "clientContent"]);
+  });
+
+  it("clears the queue when the session closes for good", async () => {
+    const server = fakeServer((connection, message) => {
+      if (message.setup) {
+        connection.close(1008, "policy violation");
+      }
+    });
+    const client = new MultimodalLiveClient({ transport: server.transport });
+    const dropped = jest.fn();
+    client.on("dropped", dropped);
+    const closed = new Promise((resolve) => client.on("close", resolve));
+
+    client.connect(config);
+    client.send([{ text: "never sent" }]);
+    await closed;
+
+    expect(dropped).toHaveBeenCalledWith(1);
+  });
+});
+
+describe("backpressure", () => {
+  const video = [{ mimeType: "image/jpeg", data: "AAAA" }];
+
+  // a transport whose buffer fills up on demand
+  const congestible = () => {
+    const server = fakeServer();
+    const state = { bufferedAmount: 0 };
+    const transport: LiveTransportFactory = (url) => {
+      const t = server.transport(url);
+      Object.defineProperty(t, "bufferedAmount", {
+        get: () => state.bufferedAmount,
+      });
+      return t;
+    };
+    return { server, state, transport };
+  };
+
+  it("drops video and coalesces audio while the transport is congested", async () => {
+    const { server, state, transport } = congestible();
+    const client = new MultimodalLiveClient({
+      transport,
+      backpressure: { highWaterMark: 100 },
+    });
+    const congestion = jest.fn();
+    client.on("congestion", congestion);
+
+    await client.connect(config);
+    await wait(10);
+    state.bufferedAmount = 101;
+    client.sendRealtimeInput([...audio("AAE="), ...video]);
+    client.sendRealtimeInput(audio("AgM="));
+    expect(congestion).toHaveBeenLastCalledWith({
+      congested: true,
+      bufferedAmount: 101,
+      droppedVideoFrames: 1,
+      coalescedAudioChunks: 2,
+    });
+
+    state.bufferedAmount = 0;
+    client.sendRealtimeInput([...audio("BAU="), ...video]);
+    await wait(10);
+
+    expect(congestion).toHaveBeenLastCalledWith({
+      congested: false,
+      bufferedAmount: 0,
+      droppedVideoFrames: 1,
+      coalescedAudioChunks: 2,
+    });
+    expect(server.connections[0].received.slice(1)).toEqual([
+      {
+        realtimeInput: {
+          mediaChunks: [...audio("AAECAwQF"), ...video],
+        },
+      },
+    ]);
+  });
+
+  it("sends held back audio once the buffer drained, without new input", async () => {
+    const { server, state, transport } = congestible();
+    const client = new MultimodalLiveClient({
+      transport,
+      backpressure: { highWaterMark: 100 },
+    });
+
+    await client.connect(config);
+    await wait(10);
+    state.bufferedAmount = 101;
+    client.sendRealtimeInput(audio("AAE="));
+    state.bufferedAmount = 0;
+    await wait(150);
+
+    expect(server.connections[0].received.slice(1)).toEqual([
+      { realtimeInput: { mediaChunks: audio("AAE=") } },
+    ]);
+  });
+
+  it("drops the oldest held back audio beyond maxPendingAudioBytes", async () => {
+    const { server, state, transport } = congestible();
+    const client = new MultimodalLiveClient({
+      transport,
+      backpressure: { highWaterMark: 100, maxPendingAudioBytes: 8 },
+    });
+    const dropped = jest.fn();
+    client.on("dropped", dropped);
+
+    await client.connect(config);
+    await wait(10);
+    state.bufferedAmount = 101;
+    client.sendRealtimeInput(audio("AAE="));
+    client.sendRealtimeInput(audio("AgM="));
+    client.sendRealtimeInput(audio("BAU="));
+    state.bufferedAmount = 0;
+    client.sendRealtimeInput([]);
+    await wait(10);
+
+    expect(dropped).toHaveBeenCalledWith(1);
+    expect(server.connections[0].received.slice(1)).toEqual([
+      { realtimeInput: { mediaChunks: audio("AgMEBQ==") } },
+    ]);
+  });
+});
+
+describe("middleware", () => {
+  it("blocks an outgoing message when it returns null", async () => {
+    const server = fakeServer();
+    const client = new MultimodalLiveClient({ transport: server.transport });
+    client.use({
+      outgoing: (message) => ("clientContent" in message ? null : undefined),
+    });
+
+    await client.connect(config);
+    await wait(10);
+    client.send([{ text: "secret" }]);
+    client.sendRealtimeInput(audio("AAAA"));
+    await wait(10);
+
+    expect(
+      server.connections[0].received.map((m) => Object.keys(m)[0]),
+    ).toEqual(["setup", "realtimeInput"]);
+  });
+
+  it("rewrites outgoing messages in the order the middleware was added", async () => {
+    const server = fakeServer();
+    const client = new MultimodalLiveClient({ transport: server.transport });
+    const prefix = (p: string) => (message: any) =>
+      "clientContent" in message
+        ? {
+            clientContent: {
+              ...message.clientContent,
+              turns: [{ role: "user", parts: [{ text: p }] }],
+            },
+          }
+        : undefined;
+    client.use({ outgoing: prefix("a") });
+    client.use({ outgoing: prefix("b") });
+
+    await client.connect(config);
+    await wait(10);
+    client.send([{ text: "original" }]);
+    await wait(10);
+
+    expect(server.connections[0].received[1].clientContent.turns).toEqual([
+      { role: "user", parts: [{ text: "b" }] },
+    ]);
+  });
+
+  it("stops at incoming middleware that blocks a message", async () => {
+    const server = fakeServer();
+    const client = new MultimodalLiveClient({ transport: server.transport });
+    const later = jest.fn();
+    client.use({
+      incoming: (message) => ("serverContent" in message ? null : undefined),
+    });
+    client.use({ incoming: later });
+    const content = jest.fn();
+    client.on("content", content);
+
+    await client.connect(config);
+    await wait(10);
+    server.connections[0].reply({
+      serverContent: { modelTurn: { parts: [{ text: "blocked" }] } },
+    });
+    await wait(10);
+
+    expect(content).not.toHaveBeenCalled();
+    // only saw setupComplete
+    expect(later).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("incoming messages", () => {
+  it("names an unrecognized message by its type, not its annotations", async () => {
+    const server = fakeServer();
+    const client = new MultimodalLiveClient({ transport: server.transport });
+    const message = jest.fn();
+    const usage = jest.fn();
+    client.on("message", message).on("usage", usage);
+
+    await client.connect(config);
+    await wait(10);
+    const goAway = {
+      usageMetadata: { totalTokenCount: 5 },
+      goAway: { timeLeft: "10s" },
+    };
+    server.connections[0].reply(goAway);
+    await wait(10);
+
+    expect(usage).toHaveBeenCalledWith({ totalTokenCount: 5 });
+    expect(message).toHaveBeenCalledWith("goAway", goAway);
+  });
+
+  it("reports a frame that is not JSON as a protocol error", async () => {
+    const server = fakeServer();
+    // to deliver raw text frames
+    const transports: MemoryTransport[] = [];
+    const transport: LiveTransportFactory = (url) => {
+      const t = server.transport(url);
+      transports.push(t as MemoryTransport);
+      return t;
+    };
+    const client = new MultimodalLiveClient({ transport });
+    const protocolerror = jest.fn();
+    const setupcomplete = jest.fn();
+    client.on("protocolerror", protocolerror);
+
+    await client.connect(config);
+    await wait(10);
+    client.on("setupcomplete", setupcomplete);
+    transports[0].deliver("not json");
+    server.connections[0].reply({ setupComplete: {} });
+    await wait(10);
+
+    expect(protocolerror).toHaveBeenCalledWith({
+      message: "not json",
+      issues: [
+        expect.objectContaining({
+          path: "$",
+          message: expect.stringContaining("not valid JSON"),
+        }),
+      ],
+    });
+    // later messages are still handled
+    expect(setupcomplete).toHaveBeenCalled();
+  });
+});
+
+describe("model text", () => {
+  const text = (value: string, turnComplete?: boolean) => ({
+    serverContent: { modelTurn: { parts: [{ text: value }] }, turnComplete },
+  });
+
+  it("emits the deltas as they arrive and the whole text on turncomplete", async () => {
+    const server = fakeServer();
+    const client = new MultimodalLiveClient({ transport: server.transport });
+    const deltas: string[] = [];
+    const turns: string[] = [];
+    const events: string[] = [];
+    client.on("textdelta", (delta) => deltas.push(delta));
+    client.on("turntext", (text) => {
+      turns.push(text);
+      events.push("turntext");
+    });
+    client.on("turncomplete", () => events.push("turncomplete"));
+
+    await client.connect(config);
+    await wait(10);
+    server.connections[0].reply(text("Hello"));
+    server.connections[0].reply(text(", world", true));
+    server.connections[0].reply(text("again", true));
+    await wait(10);
+
+    expect(deltas).toEqual(["Hello", ", world", "again"]);
+    expect(turns).toEqual(["Hello, world", "again"]);
+    // the text of a turn is there before its turncomplete
+    expect(events).toEqual([
+      "turntext",
+      "turncomplete",
+      "turntext",
+      "turncomplete",
+    ]);
+  });
+
+  it("does not emit turntext for an interrupted turn", async () => {
+    const server = fakeServer();
+    const client = new MultimodalLiveClient({ transport: server.transport });
+    const turntext = jest.fn();
+    client.on("turntext", turntext);
+
+    await client.connect(config);
+    await wait(10);
+    server.connections[0].reply(text("Hel"));
+    server.connections[0].reply({ serverContent: { interrupted: true } });
+    server.connections[0].reply({ serverContent: { turnComplete: true } });
+    await wait(10);
+
+    expect(turntext).not.toHaveBeenCalled();
+    expect(client.getTranscript()).toEqual([
+      expect.objectContaining({
+        role: "model",
+        text: "Hel",
+        interrupted: true,
+      }),
+    ]);
+  });
+});
+
+describe("sendAndAwaitTurn", () => {
+  it("resolves with the aggregated turn", async () => {
+    const server = fakeServer((connection, message) => {
+      setupOnly(connection, message);
+      if (message.clientContent) {
+        connection.reply({
+          serverContent: { modelTurn: { parts: [{ text: "Hi" }] } },
+        });
+        connection.reply({
+          serverContent: {
+            modelTurn: { parts: [{ text: " there" }] },
+            turnComplete: true,
+          },
+        });
+      }
+    });
+    const client = new MultimodalLiveClient({ transport: server.transport });
+    await client.connect(config);
+    await wait(10);
+
+    const turn = await client.sendAndAwaitTurn([{ text: "hello" }]);
+
+    expect(turn).toEqual(
+      expect.objectContaining({ text: "Hi there", interrupted: false }),
+    );
+  });
+
+  it("rejects right away when the message is dropped", async () => {
+    const client = new MultimodalLiveClient({
+      transport: fakeServer().transport,
+    });
+
+    await expect(client.sendAndAwaitTurn([{ text: "hello" }])).rejects.toThrow(
+      "the turn was dropped before it reached the server",
+    );
+  });
+
+  it("rejects when middleware blocks the message", async () => {
+    const server = fakeServer();
+    const client = new MultimodalLiveClient({ transport: server.transport });
+    client.use({ outgoing: (m) => ("clientContent" in m ? null : m) });
+    await client.connect(config);
+    await wait(10);
+
+    await expect(client.sendAndAwaitTurn([{ text: "hello" }])).rejects.toThrow(
+      "the turn was dropped before it reached the server",
+    );
+  });
+
+  it("rejects when the session drops before the turn ends", async () => {
+    const server = fakeServer();
+    const client = new MultimodalLiveClient({
+      transport: server.transport,
+      reconnect: { initialDelay: 10 },
+    });
+    await client.connect(config);
+    await wait(10);
+
+    const turn = client.sendAndAwaitTurn([{ text: "hello" }]);
+    await wait(10);
+    server.connections[0].close(1011, "going away");
+
+    await expect(turn).rejects.toThrow(
+      "connection dropped before the turn completed",
+    );
+    client.disconnect();
+  });
+});
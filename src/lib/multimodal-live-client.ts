@@ -19,14 +19,19 @@ import { EventEmitter } from "eventemitter3";
 import { difference } from "lodash";
 import {
   ClientContentMessage,
+  isClientContentMessage,
   isInterrupted,
   isModelTurn,
+  isRealtimeInputMessage,
   isServerContentMessage,
   isSetupCompleteMessage,
   isToolCallCancellationMessage,
   isToolCallMessage,
   isTurnComplete,
+  isUsageMetadataMessage,
+  LiveFunctionCall,
   LiveIncomingMessage,
+  LiveOutgoingMessage,
   ModelTurn,
   RealtimeInputMessage,
   ServerContent,
@@ -35,9 +40,24 @@ import {
   ToolCall,
   ToolCallCancellation,
   ToolResponseMessage,
+  UnrecognizedMessage,
+  UsageMetadata,
   type LiveConfig,
 } from "../multimodal-live-types";
-import { blobToJSON, base64ToArrayBuffer } from "./utils";
+import {
+  LiveTransport,
+  LiveTransportCloseEvent,
+  LiveTransportFactory,
+} from "./transports/transport";
+import { webSocketTransport } from "./transports/websocket-transport";
+import { arrayBufferToBase64, blobToJSON, base64ToArrayBuffer } from "./utils";
+import { TurnMetrics, TurnMetricsTracker } from "./turn-metrics";
+import {
+  formatIssue,
+  messageAnnotations,
+  validateIncomingMessage,
+  ValidationIssue,
+} from "./message-validation";
 
 /**
  * the events that this client will emit
@@ -45,7 +65,7 @@ import { blobToJSON, base64ToArrayBuffer } from "./utils";
 interface MultimodalLiveClientEventTypes {
   open: () => void;
   log: (log: StreamingLog) => void;
-  close: (event: CloseEvent) => void;
+  close: (event: LiveTransportCloseEvent) => void;
   audio: (data: ArrayBuffer) => void;
   content: (data: ServerContent) => void;
   interrupted: () => void;
@@ -53,36 +73,380 @@ interface MultimodalLiveClientEventTypes {
   turncomplete: () => void;
   toolcall: (toolCall: ToolCall) => void;
   toolcallcancellation: (toolcallCancellation: ToolCallCancellation) => void;
+  reconnecting: (attempt: number, delay: number) => void;
+  reconnected: () => void;
+  dropped: (count: number) => void;
+  congestion: (state: CongestionState) => void;
+  turnmetrics: (metrics: TurnMetrics) => void;
+  usage: (usage: UsageMetadata) => void;
+  // every message as it goes over the wire, e.g. for recording a session
+  frame: (direction: FrameDirection, message: object) => void;
+  textdelta: (delta: string) => void;
+  // the assembled text of a model turn, emitted on turncomplete
+  turntext: (text: string) => void;
+  transcript: (transcript: TranscriptEntry[]) => void;
+  protocolerror: (error: ProtocolError) => void;
+  // any message type the client has no dedicated event for
+  message: (type: string, message: UnrecognizedMessage) => void;
+}
+
+/**
+ * an incoming message that did not match the expected shape
+ */
+export type ProtocolError = {
+  message: unknown;
+  issues: ValidationIssue[];
+};
+
+export type FrameDirection = "in" | "out";
+
+/**
+ * describes if and how the client tries to restore a session
+ * after the socket closed unexpectedly
+ */
+export type ReconnectPolicy = {
+  maxAttempts: number;
+  // in ms, doubled for every consecutive attempt up to `maxDelay`
+  initialDelay: number;
+  maxDelay: number;
+  // 0..1, the fraction of each delay that is randomized
+  jitter: number;
+  // close codes that are worth retrying, any other code ends the session
+  retryableCloseCodes: number[];
+};
+
+export const defaultReconnectPolicy: ReconnectPolicy = {
+  maxAttempts: 5,
+  initialDelay: 500,
+  maxDelay: 10000,
+  jitter: 0.5,
+  // going away, abnormal closure, internal error, service restart, try again later, bad gateway
+  retryableCloseCodes: [1001, 1006, 1011, 1012, 1013, 1014],
+};
+
+const backoffDelay = (
+  { initialDelay, maxDelay, jitter }: ReconnectPolicy,
+  attempt: number
+) => {
+  const delay = Math.min(maxDelay, initialDelay * 2 ** (attempt - 1));
+  return delay * (1 - jitter * Math.random());
+};
+
+/**
+ * limits for the messages that are held back until the session is ready
+ */
+export type OutgoingQueueOptions = {
+  // when full, the oldest realtimeInput is dropped first, otherwise the oldest message
+  maxSize: number;
+  // in ms, realtimeInput chunks that waited longer than this are dropped instead of sent
+  maxRealtimeAge: number;
+};
+
+export const defaultOutgoingQueueOptions: OutgoingQueueOptions = {
+  maxSize: 100,
+  maxRealtimeAge: 2000,
+};
+
+/**
+ * what is replayed when a dropped session is re-established
+ */
+export type HistoryOptions = {
+  // send the text turns of the session again after reconnecting
+  reseed: boolean;
+  // only the most recent turns that fit both limits are replayed
+  maxTurns: number;
+  maxChars: number;
+};
+
+export const defaultHistoryOptions: HistoryOptions = {
+  reseed: false,
+  maxTurns: 20,
+  maxChars: 8000,
+};
+
+/**
+ * throttling of realtimeInput when the transport can't keep up
+ */
+export type BackpressureOptions = {
+  // bytes waiting in the transport above which realtimeInput is held back
+  highWaterMark: number;
+  // held back audio beyond this size is dropped, oldest first
+  maxPendingAudioBytes: number;
+};
+
+export const defaultBackpressureOptions: BackpressureOptions = {
+  highWaterMark: 128 * 1024,
+  // ~8 seconds of 16kHz pcm
+  maxPendingAudioBytes: 256 * 1024,
+};
+
+export type CongestionState = {
+  congested: boolean;
+  bufferedAmount: number;
+  // counted since the congestion started
+  droppedVideoFrames: number;
+  coalescedAudioChunks: number;
+};
+
+const isAudioChunk = (chunk: GenerativeContentBlob) =>
+  chunk.mimeType.includes("audio");
+
+/**
+ * merges all chunks of the same mimeType into a single chunk, in order
+ */
+function coalesceChunks(chunks: GenerativeContentBlob[]) {
+  const byMimeType = new Map<string, ArrayBuffer[]>();
+  chunks.forEach(({ mimeType, data }) => {
+    const buffers = byMimeType.get(mimeType) || [];
+    buffers.push(base64ToArrayBuffer(data));
+    byMimeType.set(mimeType, buffers);
+  });
+  return Array.from(byMimeType.entries()).map(([mimeType, buffers]) => {
+    const merged = new Uint8Array(
+      buffers.reduce((sum, b) => sum + b.byteLength, 0)
+    );
+    buffers.reduce((offset, b) => {
+      merged.set(new Uint8Array(b), offset);
+      return offset + b.byteLength;
+    }, 0);
+    return { mimeType, data: arrayBufferToBase64(merged.buffer) };
+  });
+}
+
+type QueueableMessage =
+  | ClientContentMessage
+  | RealtimeInputMessage
+  | ToolResponseMessage;
+
+type QueuedMessage = {
+  message: QueueableMessage;
+  date: number;
+  onDropped?: () => void;
+};
+
+type MiddlewareResult<T> = T | null | void;
+
+/**
+ * Middleware can observe, rewrite or block messages. `outgoing` runs right
+ * before a message is written to the transport, `incoming` right after a
+ * message is parsed and before it is dispatched as events.
+ * Return a message to replace it, `null` to block it or nothing to pass it on.
+ */
+export type LiveMiddleware = {
+  outgoing?: (
+    message: LiveOutgoingMessage
+  ) =>
+    | MiddlewareResult<LiveOutgoingMessage>
+    | Promise<MiddlewareResult<LiveOutgoingMessage>>;
+  incoming?: (
+    message: LiveIncomingMessage
+  ) =>
+    | MiddlewareResult<LiveIncomingMessage>
+    | Promise<MiddlewareResult<LiveIncomingMessage>>;
+};
+
+// the most recent turns that fit within both limits
+function capHistory(
+  history: Content[],
+  { maxTurns, maxChars }: HistoryOptions
+): Content[] {
+  const turns: Content[] = [];
+  let chars = 0;
+  for (let i = history.length - 1; i >= 0 && turns.length < maxTurns; i--) {
+    const length = history[i].parts.map((p) => p.text || "").join("").length;
+    if (chars + length > maxChars) {
+      break;
+    }
+    chars += length;
+    turns.unshift(history[i]);
+  }
+  return turns;
+}
+
+async function applyMiddleware<T>(
+  message: T,
+  handlers: Array<
+    (message: T) => MiddlewareResult<T> | Promise<MiddlewareResult<T>>
+  >
+): Promise<T | null> {
+  let current = message;
+  for (const handler of handlers) {
+    const result = await handler(current);
+    if (result === null) {
+      return null;
+    }
+    if (result) {
+      current = result;
+    }
+  }
+  return current;
 }
 
+/**
+ * one text turn of the running transcript of a session
+ */
+export type TranscriptEntry = {
+  role: "user" | "model";
+  text: string;
+  date: Date;
+  interrupted?: boolean;
+};
+
+/**
+ * the model's answer to a `sendAndAwaitTurn`
+ */
+export type AggregatedTurn = {
+  // all text parts, concatenated
+  text: string;
+  // every part of the turn except the audio
+  parts: Part[];
+  audioBytes: number;
+  toolCalls: LiveFunctionCall[];
+  interrupted: boolean;
+};
+
+export type AwaitTurnOptions = {
+  signal?: AbortSignal;
+  // in ms
+  timeout?: number;
+};
+
 export type MultimodalLiveAPIClientConnection = {
   url?: string;
-  apiKey: string;
+  // leave it out when `url` points to a relay that adds the key itself,
+  // see server/relay-server.ts
+  apiKey?: string;
+  // reconnecting is opt-in, omitted fields fall back to `defaultReconnectPolicy`
+  reconnect?: Partial<ReconnectPolicy>;
+  queue?: Partial<OutgoingQueueOptions>;
+  // defaults to a browser WebSocket
+  transport?: LiveTransportFactory;
+  // drop invalid messages and log every schema mismatch, see `strict`
+  strict?: boolean;
+  backpressure?: Partial<BackpressureOptions>;
+  history?: Partial<HistoryOptions>;
 };
 
 /**
  * A event-emitting class that manages the connection to the websocket and emits
  * events to the rest of the application.
  * If you dont want to use react you can still use this.
+ * The connection itself is made through a `LiveTransport`, see `./transports`
  */
 export class MultimodalLiveClient extends EventEmitter<MultimodalLiveClientEventTypes> {
-  public ws: WebSocket | null = null;
+  public transport: LiveTransport | null = null;
+  // a connection attempt that has not opened yet, `cancel` closes it
+  private pendingTransport: {
+    transport: LiveTransport;
+    cancel: () => void;
+  } | null = null;
+  private createTransport: LiveTransportFactory;
   protected config: LiveConfig | null = null;
   public url: string = "";
+  public reconnectPolicy: ReconnectPolicy | null = null;
+  private reconnectAttempt = 0;
+  private reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+  // the close of the dropped session, emitted once reconnecting ends without it
+  private reconnectCloseEvent: LiveTransportCloseEvent | null = null;
+  public queueOptions: OutgoingQueueOptions = defaultOutgoingQueueOptions;
+  private outgoingQueue: QueuedMessage[] = [];
+  // messages other than `setup` are only sent once the server acknowledged it
+  private isSetupComplete = false;
+  private transcript: TranscriptEntry[] = [];
+  // text of the model turn that is currently streaming in
+  private turnText = "";
+  private middleware: LiveMiddleware[] = [];
+  // middleware can be async, chaining keeps the messages in order
+  private outgoingChain: Promise<void> = Promise.resolve();
+  private incomingChain: Promise<void> = Promise.resolve();
+  // in strict mode invalid messages are not dispatched and schema drift,
+  // such as unknown fields, is logged as `protocol.drift`
+  public strict: boolean;
+  public backpressure: BackpressureOptions = defaultBackpressureOptions;
+  private pendingAudio: GenerativeContentBlob[] = [];
+  private congestion: CongestionState | null = null;
+  private drainTimeout: ReturnType<typeof setTimeout> | null = null;
+  public historyOptions: HistoryOptions = defaultHistoryOptions;
+  // set while a dropped session is being re-established
+  private reseedOnSetup = false;
   public getConfig() {
     return { ...this.config };
   }
+  public getTranscript() {
+    return [...this.transcript];
+  }
+  /**
+   * the text turns of the session, oldest first
+   */
+  public getHistory(): Content[] {
+    return this.transcript.map(({ role, text }) => ({
+      role,
+      parts: [{ text }],
+    }));
+  }
 
-  constructor({ url, apiKey }: MultimodalLiveAPIClientConnection) {
+  constructor({
+    url,
+    apiKey,
+    reconnect,
+    queue,
+    transport = webSocketTransport,
+    strict = false,
+    backpressure,
+    history,
+  }: MultimodalLiveAPIClientConnection) {
     super();
     url =
       url ||
       `wss://generativelanguage.googleapis.com/ws/google.ai.generativelanguage.v1alpha.GenerativeService.BidiGenerateContent`;
-    url += `?key=${apiKey}`;
+    if (apiKey) {
+      url += `?key=${apiKey}`;
+    }
     this.url = url;
+    this.createTransport = transport;
+    this.strict = strict;
+    this.setBackpressureOptions(backpressure);
+    new TurnMetricsTracker(this, (metrics) =>
+      this.emit("turnmetrics", metrics)
+    );
+    this.setReconnectPolicy(reconnect);
+    this.setQueueOptions(queue);
+    this.setHistoryOptions(history);
     this.send = this.send.bind(this);
   }
 
+  /**
+   * enable reconnecting by passing a (partial) policy, disable it by passing nothing
+   */
+  setReconnectPolicy(policy?: Partial<ReconnectPolicy>) {
+    this.reconnectPolicy = policy
+      ? { ...defaultReconnectPolicy, ...policy }
+      : null;
+  }
+
+  setBackpressureOptions(options?: Partial<BackpressureOptions>) {
+    this.backpressure = { ...defaultBackpressureOptions, ...options };
+  }
+
+  setQueueOptions(options?: Partial<OutgoingQueueOptions>) {
+    this.queueOptions = { ...defaultOutgoingQueueOptions, ...options };
+  }
+
+  setHistoryOptions(options?: Partial<HistoryOptions>) {
+    this.historyOptions = { ...defaultHistoryOptions, ...options };
+  }
+
+  /**
+   * registers middleware for incoming and/or outgoing messages,
+   * returns a function that removes it again
+   */
+  use(middleware: LiveMiddleware) {
+    this.middleware.push(middleware);
+    return () => {
+      this.middleware = this.middleware.filter((m) => m !== middleware);
+    };
+  }
+
   log(type: string, message: StreamingLog["message"]) {
     const log: StreamingLog = {
       date: new Date(),
@@ -94,33 +458,90 @@ export class MultimodalLiveClient extends EventEmitter<MultimodalLiveClientEvent
 
   connect(config: LiveConfig): Promise<boolean> {
     this.config = config;
+    this.cancelReconnect();
+    this.reseedOnSetup = false;
+    this.transcript = [];
+    this.turnText = "";
+    this.emit("transcript", this.getTranscript());
+    return this.openTransport();
+  }
 
-    const ws = new WebSocket(this.url);
+  /**
+   * replaces the current session with one that is set up with `config`.
+   * unlike `disconnect()` + `connect()` there is no `close` event and the
+   * transcript is kept, realtimeInput sent in the meantime is queued,
+   * so mic and video can keep streaming
+   */
+  reconfigure(
+    config: LiveConfig,
+    { reseed = this.historyOptions.reseed }: { reseed?: boolean } = {}
+  ): Promise<boolean> {
+    this.config = config;
+    this.cancelReconnect();
+    if (this.transport) {
+      const previous = this.transport;
+      // it is replaced on purpose, nobody needs to hear about it closing
+      previous.removeAllListeners();
+      this.disconnect(previous);
+    }
+    this.turnText = "";
+    this.reseedOnSetup = reseed;
+    this.log("client.reconfigure", "starting a new session");
+    return this.openTransport();
+  }
 
-    ws.addEventListener("message", async (evt: MessageEvent) => {
-      if (evt.data instanceof Blob) {
-        this.receive(evt.data);
-      } else {
-        console.log("non blob message", evt);
-      }
+  /**
+   * resolves with false when the attempt is cancelled before it opens,
+   * by `disconnect()` or another connection attempt
+   */
+  private openTransport(): Promise<boolean> {
+    this.cancelPendingTransport();
+    const transport = this.createTransport(this.url);
+
+    transport.on("message", (data: Blob | string) => {
+      this.incomingChain = this.incomingChain
+        .then(() => this.receive(data))
+        .catch((e) => console.error("could not handle message", e));
     });
     return new Promise((resolve, reject) => {
-      const onError = (ev: Event) => {
-        this.disconnect(ws);
+      this.pendingTransport = {
+        transport,
+        cancel: () => {
+          transport.removeAllListeners();
+          transport.close();
+          resolve(false);
+        },
+      };
+      const onError = () => {
+        if (this.pendingTransport?.transport === transport) {
+          this.pendingTransport = null;
+        }
+        this.disconnect(transport);
+        // a failed reconnect attempt is retried, the queue waits for it
+        if (!this.reconnectAttempt) {
+          this.clearOutgoingQueue();
+        }
         const message = `Could not connect to "${this.url}"`;
-        this.log(`server.${ev.type}`, message);
+        this.log(`server.error`, message);
         reject(new Error(message));
       };
-      ws.addEventListener("error", onError);
-      ws.addEventListener("open", (ev: Event) => {
+      transport.on("error", onError);
+      transport.on("open", () => {
+        // an attempt that was given up on in the meantime
+        if (this.pendingTransport?.transport !== transport) {
+          transport.removeAllListeners();
+          transport.close();
+          return;
+        }
+        this.pendingTransport = null;
         if (!this.config) {
           reject("Invalid config sent to `connect(config)`");
           return;
         }
-        this.log(`client.${ev.type}`, `connected to socket`);
+        this.log(`client.open`, `connected to socket`);
         this.emit("open");
 
-        this.ws = ws;
+        this.transport = transport;
 
         const setupMessage: SetupMessage = {
           setup: this.config,
@@ -128,9 +549,10 @@ export class MultimodalLiveClient extends EventEmitter<MultimodalLiveClientEvent
         this._sendDirect(setupMessage);
         this.log("client.send", "setup");
 
-        ws.removeEventListener("error", onError);
-        ws.addEventListener("close", (ev: CloseEvent) => {
-          this.disconnect(ws);
+        transport.off("error", onError);
+        transport.on("close", (ev: LiveTransportCloseEvent) => {
+          // false when the socket was closed on purpose through `disconnect()`
+          const closedUnexpectedly = this.disconnect(transport);
           let reason = ev.reason || "";
           if (reason.toLowerCase().includes("error")) {
             const prelude = "ERROR]";
@@ -143,9 +565,14 @@ export class MultimodalLiveClient extends EventEmitter<MultimodalLiveClientEvent
             }
           }
           this.log(
-            `server.${ev.type}`,
+            `server.close`,
             `disconnected ${reason ? `with reason: ${reason}` : ``}`
           );
+          if (closedUnexpectedly && this.shouldReconnect(ev)) {
+            this.scheduleReconnect(ev);
+            return;
+          }
+          this.clearOutgoingQueue();
           this.emit("close", ev);
         });
         resolve(true);
@@ -153,22 +580,151 @@ export class MultimodalLiveClient extends EventEmitter<MultimodalLiveClientEvent
     });
   }
 
-  disconnect(ws?: WebSocket) {
-    // could be that this is an old websocket and theres already a new instance
+  disconnect(transport?: LiveTransport) {
+    // a dropped session that is being re-established, there is no transport
+    // left to close and report it
+    const dropped =
+      !transport && !this.transport && this.reconnectAttempt
+        ? this.reconnectCloseEvent
+        : null;
+    if (!transport) {
+      this.cancelReconnect();
+      this.clearOutgoingQueue();
+    }
+    if (dropped) {
+      this.log("client.close", `Disconnected while reconnecting`);
+      this.emit("close", dropped);
+      return false;
+    }
+    // could be that this is an old transport and theres already a new instance
     // only close it if its still the correct reference
-    if ((!ws || this.ws === ws) && this.ws) {
-      this.ws.close();
-      this.ws = null;
+    if ((!transport || this.transport === transport) && this.transport) {
+      this.transport.close();
+      this.transport = null;
+      this.isSetupComplete = false;
+      this.resetBackpressure();
       this.log("client.close", `Disconnected`);
       return true;
     }
     return false;
   }
 
-  protected async receive(blob: Blob) {
-    const response: LiveIncomingMessage = (await blobToJSON(
-      blob
-    )) as LiveIncomingMessage;
+  private shouldReconnect(ev: LiveTransportCloseEvent) {
+    return (
+      !!this.reconnectPolicy &&
+      this.reconnectPolicy.retryableCloseCodes.includes(ev.code)
+    );
+  }
+
+  /**
+   * retries `openTransport` with exponential backoff, the original close event
+   * is only emitted once the policy gives up
+   */
+  private scheduleReconnect(closeEvent: LiveTransportCloseEvent) {
+    const policy = this.reconnectPolicy;
+    if (!policy || this.reconnectAttempt >= policy.maxAttempts) {
+      this.log(
+        "client.reconnect",
+        `giving up after ${this.reconnectAttempt} attempts`
+      );
+      this.reconnectAttempt = 0;
+      this.clearOutgoingQueue();
+      this.emit("close", closeEvent);
+      return;
+    }
+    const attempt = ++this.reconnectAttempt;
+    this.reconnectCloseEvent = closeEvent;
+    const delay = backoffDelay(policy, attempt);
+    this.log(
+      "client.reconnect",
+      `attempt ${attempt} of ${policy.maxAttempts} in ${Math.round(delay)}ms`
+    );
+    this.emit("reconnecting", attempt, delay);
+
+    this.reconnectTimeout = setTimeout(() => {
+      this.reconnectTimeout = null;
+      this.reseedOnSetup = this.historyOptions.reseed;
+      this.openTransport().then(
+        (connected) => {
+          // cancelled, e.g. by `disconnect()`
+          if (!connected) {
+            return;
+          }
+          this.log("client.reconnect", `reconnected after ${attempt} attempts`);
+          this.emit("reconnected");
+        },
+        () => {
+          // `connect()` or `disconnect()` took over while it was failing
+          if (this.reconnectAttempt === attempt) {
+            this.scheduleReconnect(closeEvent);
+          }
+        }
+      );
+    }, delay);
+  }
+
+  private cancelReconnect() {
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+    this.reconnectAttempt = 0;
+    this.cancelPendingTransport();
+  }
+
+  private cancelPendingTransport() {
+    const pending = this.pendingTransport;
+    this.pendingTransport = null;
+    pending?.cancel();
+  }
+
+  // the live api sends binary frames, text frames are handled the same way
+  protected async receive(data: Blob | string) {
+    let raw: LiveIncomingMessage;
+    try {
+      raw = (
+        typeof data === "string" ? JSON.parse(data) : await blobToJSON(data)
+      ) as LiveIncomingMessage;
+    } catch (e) {
+      const issue = {
+        path: "$",
+        message: `not valid JSON: ${e instanceof Error ? e.message : e}`,
+      };
+      this.log("protocol.error", formatIssue(issue));
+      this.emit("protocolerror", { message: data, issues: [issue] });
+      return;
+    }
+    this.emit("frame", "in", raw);
+
+    const response = await applyMiddleware(
+      raw,
+      this.middleware.flatMap(({ incoming }) => (incoming ? [incoming] : []))
+    );
+    if (!response) {
+      this.log("client.middleware", "blocked an incoming message");
+      return;
+    }
+
+    const { errors, drift } = validateIncomingMessage(response);
+    if (errors.length) {
+      this.emit("protocolerror", { message: response, issues: errors });
+    }
+    if (this.strict) {
+      [...errors, ...drift].forEach((issue) =>
+        this.log("protocol.drift", formatIssue(issue))
+      );
+      if (errors.length) {
+        return;
+      }
+    }
+    if (isUsageMetadataMessage(response)) {
+      const { usageMetadata } = response;
+      this.log("server.usageMetadata", { usageMetadata });
+      this.emit("usage", usageMetadata);
+      if (Object.keys(response).length === 1) {
+        return;
+      }
+    }
     if (isToolCallMessage(response)) {
       this.log("server.toolCall", response);
       this.emit("toolcall", response.toolCall);
@@ -181,7 +737,15 @@ export class MultimodalLiveClient extends EventEmitter<MultimodalLiveClientEvent
     }
 
     if (isSetupCompleteMessage(response)) {
+      // the session is usable again, a later drop gets a fresh set of attempts
+      this.reconnectAttempt = 0;
+      this.isSetupComplete = true;
       this.log("server.send", "setupComplete");
+      if (this.reseedOnSetup) {
+        this.reseedOnSetup = false;
+        this.reseed();
+      }
+      this.flushOutgoingQueue();
       this.emit("setupcomplete");
       return;
     }
@@ -191,16 +755,11 @@ export class MultimodalLiveClient extends EventEmitter<MultimodalLiveClientEvent
     if (isServerContentMessage(response)) {
       const { serverContent } = response;
       if (isInterrupted(serverContent)) {
+        this.endModelTurn(true);
         this.log("receive.serverContent", "interrupted");
         this.emit("interrupted");
         return;
       }
-      if (isTurnComplete(serverContent)) {
-        this.log("server.send", "turnComplete");
-        this.emit("turncomplete");
-        //plausible theres more to the message, continue
-      }
-
       if (isModelTurn(serverContent)) {
         let parts: Part[] = serverContent.modelTurn.parts;
 
@@ -221,25 +780,100 @@ export class MultimodalLiveClient extends EventEmitter<MultimodalLiveClientEvent
             this.log(`server.audio`, `buffer (${data.byteLength})`);
           }
         });
-        if (!otherParts.length) {
-          return;
-        }
+        if (otherParts.length) {
+          parts = otherParts;
+
+          const content: ModelTurn = { modelTurn: { parts } };
+          this.emit("content", content);
+          this.log(`server.content`, response);
 
-        parts = otherParts;
+          const delta = parts.map((p) => p.text || "").join("");
+          if (delta) {
+            this.turnText += delta;
+            this.emit("textdelta", delta);
+          }
+        }
+      }
 
-        const content: ModelTurn = { modelTurn: { parts } };
-        this.emit("content", content);
-        this.log(`server.content`, response);
+      // the last parts of a turn can arrive in the same message as turnComplete,
+      // emit it last so listeners have seen the whole turn
+      if (isTurnComplete(serverContent)) {
+        this.log("server.send", "turnComplete");
+        this.endModelTurn(false);
+        this.emit("turncomplete");
       }
     } else {
-      console.log("received unmatched message", response);
+      // newer message types (e.g. `goAway`) are passed on
+      // as they are, so they at least show up in the console
+      const message = response as UnrecognizedMessage;
+      // e.g. `usageMetadata` next to the actual type
+      const [type = "unknown"] = Object.keys(message).filter(
+        (key) => !messageAnnotations.includes(key)
+      );
+      this.log(`server.${type}`, message);
+      this.emit("message", type, message);
+    }
+  }
+
+  private endModelTurn(interrupted: boolean) {
+    const text = this.turnText;
+    this.turnText = "";
+    if (!text) {
+      return;
+    }
+    if (!interrupted) {
+      this.emit("turntext", text);
+    }
+    this.addToTranscript({
+      role: "model",
+      text,
+      date: new Date(),
+      interrupted,
+    });
+  }
+
+  /**
+   * gives a new session the context of the old one, before anything
+   * that was queued in the meantime
+   */
+  private reseed() {
+    const history = this.getHistory();
+    // turns sent while disconnected are still queued and follow the replay,
+    // leave them out of it
+    let queued = this.outgoingQueue.filter(
+      ({ message }) =>
+        isClientContentMessage(message) &&
+        message.clientContent.turns.some((t) => t.parts.some((p) => p.text))
+    ).length;
+    for (let i = history.length - 1; i >= 0 && queued > 0; i--) {
+      if (history[i].role === "user") {
+        history.splice(i, 1);
+        queued--;
+      }
+    }
+    const turns = capHistory(history, this.historyOptions);
+    if (!turns.length) {
+      return;
     }
+    this._sendDirect({ clientContent: { turns, turnComplete: false } });
+    this.log("client.reseed", `replayed ${turns.length} turns`);
+  }
+
+  private addToTranscript(entry: TranscriptEntry) {
+    this.transcript.push(entry);
+    this.emit("transcript", this.getTranscript());
   }
 
   /**
    * send realtimeInput, this is base64 chunks of "audio/pcm" and/or "image/jpg"
    */
   sendRealtimeInput(chunks: GenerativeContentBlob[]) {
+    if (this.transport && this.isSetupComplete) {
+      chunks = this.applyBackpressure(chunks);
+      if (!chunks.length) {
+        return;
+      }
+    }
     let hasAudio = false;
     let hasVideo = false;
     for (let i = 0; i < chunks.length; i++) {
@@ -268,8 +902,103 @@ export class MultimodalLiveClient extends EventEmitter<MultimodalLiveClientEvent
         mediaChunks: chunks,
       },
     };
-    this._sendDirect(data);
-    this.log(`client.realtimeInput`, message);
+    if (this.sendOrQueue(data)) {
+      this.log(`client.realtimeInput`, message);
+    }
+  }
+
+  /**
+   * while the transport is congested, video frames are dropped and audio is held
+   * back, to be sent as a single coalesced chunk once the buffer drained
+   */
+  private applyBackpressure(chunks: GenerativeContentBlob[]) {
+    const { bufferedAmount } = this.transport!;
+    const audio = chunks.filter(isAudioChunk);
+    const video = chunks.filter((ch) => !isAudioChunk(ch));
+
+    if (bufferedAmount > this.backpressure.highWaterMark) {
+      this.pendingAudio.push(...audio);
+      this.trimPendingAudio();
+      const previous = this.congestion;
+      this.congestion = {
+        congested: true,
+        bufferedAmount,
+        droppedVideoFrames: (previous?.droppedVideoFrames || 0) + video.length,
+        coalescedAudioChunks:
+          (previous?.coalescedAudioChunks || 0) + audio.length,
+      };
+      if (!previous) {
+        this.log("client.congestion", `${bufferedAmount} bytes buffered`);
+      }
+      this.emit("congestion", this.congestion);
+      this.scheduleDrain();
+      return [];
+    }
+
+    if (this.congestion) {
+      const { droppedVideoFrames, coalescedAudioChunks } = this.congestion;
+      this.congestion = null;
+      this.log(
+        "client.congestion",
+        `cleared, dropped ${droppedVideoFrames} video frame(s) and coalesced ${coalescedAudioChunks} audio chunk(s)`
+      );
+      this.emit("congestion", {
+        congested: false,
+        bufferedAmount,
+        droppedVideoFrames,
+        coalescedAudioChunks,
+      });
+    }
+    if (!this.pendingAudio.length) {
+      return chunks;
+    }
+    const pending = this.pendingAudio;
+    this.pendingAudio = [];
+    return [...coalesceChunks([...pending, ...audio]), ...video];
+  }
+
+  private trimPendingAudio() {
+    // base64 is ~4/3 of the actual size, close enough for a limit
+    let size = this.pendingAudio.reduce((sum, ch) => sum + ch.data.length, 0);
+    let dropped = 0;
+    while (
+      size > this.backpressure.maxPendingAudioBytes &&
+      this.pendingAudio.length > 1
+    ) {
+      size -= this.pendingAudio.shift()!.data.length;
+      dropped++;
+    }
+    this.reportDropped(dropped);
+  }
+
+  // makes sure held back audio goes out, even when no new input arrives
+  private scheduleDrain() {
+    if (this.drainTimeout) {
+      return;
+    }
+    this.drainTimeout = setTimeout(() => {
+      this.drainTimeout = null;
+      if (this.pendingAudio.length) {
+        this.sendRealtimeInput([]);
+      }
+    }, 100);
+  }
+
+  private resetBackpressure() {
+    if (this.drainTimeout) {
+      clearTimeout(this.drainTimeout);
+      this.drainTimeout = null;
+    }
+    this.pendingAudio = [];
+    if (this.congestion) {
+      this.congestion = null;
+      this.emit("congestion", {
+        congested: false,
+        bufferedAmount: 0,
+        droppedVideoFrames: 0,
+        coalescedAudioChunks: 0,
+      });
+    }
   }
 
   /**
@@ -280,14 +1009,27 @@ export class MultimodalLiveClient extends EventEmitter<MultimodalLiveClientEvent
       toolResponse,
     };
 
-    this._sendDirect(message);
-    this.log(`client.toolResponse`, message);
+    if (this.sendOrQueue(message)) {
+      this.log(`client.toolResponse`, message);
+    }
   }
 
   /**
    * send normal content parts such as { text }
    */
   send(parts: Part | Part[], turnComplete: boolean = true) {
+    return this.sendContent(parts, turnComplete);
+  }
+
+  /**
+   * returns false when the message is dropped right away, `onDropped` is
+   * also called when it is dropped later on, e.g. blocked by middleware
+   */
+  private sendContent(
+    parts: Part | Part[],
+    turnComplete: boolean,
+    onDropped?: () => void
+  ) {
     parts = Array.isArray(parts) ? parts : [parts];
     const content: Content = {
       role: "user",
@@ -301,19 +1043,216 @@ export class MultimodalLiveClient extends EventEmitter<MultimodalLiveClientEvent
       },
     };
 
-    this._sendDirect(clientContentRequest);
+    if (!this.sendOrQueue(clientContentRequest, onDropped)) {
+      return false;
+    }
     this.log(`client.send`, clientContentRequest);
+
+    const text = parts.map((p) => p.text || "").join("");
+    if (text) {
+      this.addToTranscript({ role: "user", text, date: new Date() });
+    }
+    return true;
+  }
+
+  // a session is on its way, queued messages will be sent once it is set up
+  private isConnecting() {
+    return (
+      !!this.pendingTransport ||
+      !!this.reconnectTimeout ||
+      (!!this.transport && !this.isSetupComplete)
+    );
+  }
+
+  /**
+   * sends right away when the session is ready, holds the message until
+   * `setupcomplete` while connecting or reconnecting. without a session
+   * on its way the message is dropped, returns false then. `onDropped` is
+   * called whenever the message does not make it to the transport
+   */
+  private sendOrQueue(message: QueueableMessage, onDropped?: () => void) {
+    if (this.transport && this.isSetupComplete) {
+      this._sendDirect(message, onDropped);
+      return true;
+    }
+    // it would end up in whatever session comes next, with its own config
+    if (!this.isConnecting()) {
+      this.log("client.drop", "dropped a message, not connected");
+      this.emit("dropped", 1);
+      onDropped?.();
+      return false;
+    }
+    this.outgoingQueue.push({ message, date: Date.now(), onDropped });
+    if (this.outgoingQueue.length > this.queueOptions.maxSize) {
+      const realtimeIndex = this.outgoingQueue.findIndex(({ message }) =>
+        isRealtimeInputMessage(message)
+      );
+      const [removed] = this.outgoingQueue.splice(
+        Math.max(realtimeIndex, 0),
+        1
+      );
+      this.reportDropped(1);
+      removed.onDropped?.();
+    }
+    return true;
+  }
+
+  private flushOutgoingQueue() {
+    const queue = this.outgoingQueue;
+    this.outgoingQueue = [];
+    const now = Date.now();
+    let dropped = 0;
+    queue.forEach(({ message, date, onDropped }) => {
+      // stale audio and video frames would only add latency
+      if (
+        isRealtimeInputMessage(message) &&
+        now - date > this.queueOptions.maxRealtimeAge
+      ) {
+        dropped++;
+        onDropped?.();
+        return;
+      }
+      this._sendDirect(message, onDropped);
+    });
+    this.reportDropped(dropped);
+  }
+
+  private clearOutgoingQueue() {
+    const queue = this.outgoingQueue;
+    this.outgoingQueue = [];
+    this.reportDropped(queue.length);
+    queue.forEach(({ onDropped }) => onDropped?.());
+  }
+
+  private reportDropped(count: number) {
+    if (!count) {
+      return;
+    }
+    this.log("client.drop", `dropped ${count} queued message(s)`);
+    this.emit("dropped", count);
+  }
+
+  /**
+   * sends `parts` as a complete user turn and resolves once the model's turn
+   * completes or is interrupted. Tool calls made during the turn are collected,
+   * but still need to be answered (e.g. by a `toolcall` listener) for the turn to end.
+   * Rejects when the message is dropped or blocked by middleware, or when the
+   * session closes or drops before the turn ends.
+   * Only await one turn at a time, concurrent calls would aggregate the same turn
+   */
+  sendAndAwaitTurn(
+    parts: Part | Part[],
+    { signal, timeout }: AwaitTurnOptions = {}
+  ): Promise<AggregatedTurn> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      const turn: AggregatedTurn = {
+        text: "",
+        parts: [],
+        audioBytes: 0,
+        toolCalls: [],
+        interrupted: false,
+      };
+      let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+      const onContent = (content: ServerContent) => {
+        if (isModelTurn(content)) {
+          const { parts } = content.modelTurn;
+          turn.parts.push(...parts);
+          turn.text += parts.map((p) => p.text || "").join("");
+        }
+      };
+      const onAudio = (data: ArrayBuffer) => {
+        turn.audioBytes += data.byteLength;
+      };
+      const onToolCall = (toolCall: ToolCall) => {
+        turn.toolCalls.push(...toolCall.functionCalls);
+      };
+      const onInterrupted = () => {
+        turn.interrupted = true;
+        finish();
+      };
+      const onClose = () =>
+        fail(new Error("connection closed before the turn completed"));
+      // the new session does not know about the turn
+      const onReconnecting = () =>
+        fail(new Error("connection dropped before the turn completed"));
+      const onDropped = () =>
+        fail(new Error("the turn was dropped before it reached the server"));
+      const onAbort = () => fail(signal?.reason);
+
+      const cleanup = () => {
+        clearTimeout(timeoutId);
+        signal?.removeEventListener("abort", onAbort);
+        this.off("content", onContent)
+          .off("audio", onAudio)
+          .off("toolcall", onToolCall)
+          .off("interrupted", onInterrupted)
+          .off("turncomplete", finish)
+          .off("close", onClose)
+          .off("reconnecting", onReconnecting);
+      };
+      const finish = () => {
+        cleanup();
+        resolve(turn);
+      };
+      const fail = (error: unknown) => {
+        cleanup();
+        reject(error);
+      };
+
+      this.on("content", onContent)
+        .on("audio", onAudio)
+        .on("toolcall", onToolCall)
+        .on("interrupted", onInterrupted)
+        .on("turncomplete", finish)
+        .on("close", onClose)
+        .on("reconnecting", onReconnecting);
+      signal?.addEventListener("abort", onAbort);
+      if (timeout !== undefined) {
+        timeoutId = setTimeout(
+          () => fail(new Error(`turn timed out after ${timeout}ms`)),
+          timeout
+        );
+      }
+
+      this.sendContent(parts, true, onDropped);
+    });
   }
 
   /**
    *  used internally to send all messages
    *  don't use directly unless trying to send an unsupported message type
    */
-  _sendDirect(request: object) {
-    if (!this.ws) {
+  _sendDirect(request: object, onDropped?: () => void) {
+    if (!this.transport) {
       throw new Error("WebSocket is not connected");
     }
-    const str = JSON.stringify(request);
-    this.ws.send(str);
+    const transport = this.transport;
+    this.outgoingChain = this.outgoingChain
+      .then(async () => {
+        const message = await applyMiddleware(
+          request as LiveOutgoingMessage,
+          this.middleware.flatMap(({ outgoing }) =>
+            outgoing ? [outgoing] : []
+          )
+        );
+        if (!message) {
+          this.log("client.middleware", "blocked an outgoing message");
+          onDropped?.();
+          return;
+        }
+        // the connection might have been replaced while the middleware ran
+        if (this.transport !== transport) {
+          onDropped?.();
+          return;
+        }
+        transport.send(JSON.stringify(message));
+        this.emit("frame", "out", message);
+      })
+      .catch((e) => console.error("could not send message", e));
   }
 }
@@ -0,0 +1,91 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Schema, SchemaType } from "@google/generative-ai";
+import { validateArgs } from "./schema-validation";
+
+const parameters: Schema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    city: { type: SchemaType.STRING },
+    days: { type: SchemaType.INTEGER },
+    units: { type: SchemaType.STRING, enum: ["celsius", "fahrenheit"] },
+    detailed: { type: SchemaType.BOOLEAN, nullable: true },
+    points: {
+      type: SchemaType.ARRAY,
+      items: {
+        type: SchemaType.OBJECT,
+        properties: { x: { type: SchemaType.NUMBER } },
+        required: ["x"],
+      },
+    },
+  },
+  required: ["city"],
+};
+
+describe("validateArgs", () => {
+  it("accepts args that match the schema", () => {
+    expect(
+      validateArgs(parameters, {
+        city: "Paris",
+        days: 3,
+        units: "celsius",
+        detailed: null,
+        points: [{ x: 1.5 }, { x: -2 }],
+      }),
+    ).toEqual([]);
+  });
+
+  it("reports every mismatch with its path", () => {
+    expect(
+      validateArgs(parameters, {
+        days: 1.5,
+        units: "kelvin",
+        points: [{ x: 1 }, { x: "2" }, {}],
+      }),
+    ).toEqual([
+      { path: "$.city", message: "missing required field" },
+      { path: "$.days", message: "expected integer, got number" },
+      {
+        path: "$.units",
+        message: 'expected one of celsius, fahrenheit, got "kelvin"',
+      },
+      { path: "$.points[1].x", message: "expected number, got string" },
+      { path: "$.points[2].x", message: "missing required field" },
+    ]);
+  });
+
+  it("only accepts null where the schema is nullable", () => {
+    expect(validateArgs(parameters, { city: null })).toEqual([
+      { path: "$.city", message: "expected a value, got null" },
+    ]);
+  });
+
+  it("passes fields the schema does not describe on", () => {
+    expect(validateArgs(parameters, { city: "Paris", extra: 1 })).toEqual([]);
+  });
+
+  it("accepts the type in upper case, like the api does", () => {
+    const upper = { type: "OBJECT", required: ["a"] } as unknown as Schema;
+    expect(validateArgs(upper, [])).toEqual([
+      { path: "$", message: "expected object, got array" },
+    ]);
+  });
+
+  it("accepts anything for a function without parameters", () => {
+    expect(validateArgs(undefined, { anything: true })).toEqual([]);
+  });
+});
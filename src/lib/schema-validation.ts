@@ -0,0 +1,120 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { Schema } from "@google/generative-ai";
+import type { ValidationIssue } from "./message-validation";
+
+/**
+ * checks function call args against the `parameters` of a function
+ * declaration, so handlers only ever run with args of the declared shape.
+ * issues use the same paths as the message validation, e.g.
+ * `$.points[2].x: expected number, got string`
+ */
+
+const describe = (value: unknown) =>
+  value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+
+const check = (
+  schema: Schema,
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[],
+) => {
+  if (value === null) {
+    if (!schema.nullable) {
+      issues.push({ path, message: "expected a value, got null" });
+    }
+    return;
+  }
+  // the api accepts the type in either case
+  const type = schema.type?.toLowerCase();
+  const mismatch = () =>
+    issues.push({ path, message: `expected ${type}, got ${describe(value)}` });
+
+  switch (type) {
+    case "string":
+      if (typeof value !== "string") {
+        return mismatch();
+      }
+      if (schema.enum && !schema.enum.includes(value)) {
+        issues.push({
+          path,
+          message: `expected one of ${schema.enum.join(", ")}, got "${value}"`,
+        });
+      }
+      return;
+    case "number":
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        mismatch();
+      }
+      return;
+    case "integer":
+      if (!Number.isInteger(value)) {
+        mismatch();
+      }
+      return;
+    case "boolean":
+      if (typeof value !== "boolean") {
+        mismatch();
+      }
+      return;
+    case "array":
+      if (!Array.isArray(value)) {
+        return mismatch();
+      }
+      if (schema.items) {
+        const items = schema.items;
+        value.forEach((v, i) => check(items, v, `${path}[${i}]`, issues));
+      }
+      return;
+    case "object": {
+      if (describe(value) !== "object") {
+        return mismatch();
+      }
+      const object = value as Record<string, unknown>;
+      (schema.required || []).forEach((key) => {
+        if (object[key] === undefined) {
+          issues.push({
+            path: `${path}.${key}`,
+            message: "missing required field",
+          });
+        }
+      });
+      // fields the schema does not describe are passed on as they are
+      Object.entries(schema.properties || {}).forEach(([key, property]) => {
+        if (object[key] !== undefined) {
+          check(property, object[key], `${path}.${key}`, issues);
+        }
+      });
+      return;
+    }
+    // no (or an unknown) type, anything goes
+    default:
+      return;
+  }
+};
+
+export function validateArgs(
+  schema: Schema | undefined,
+  args: unknown,
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  // a function without parameters takes no args, whatever the model sends
+  if (schema) {
+    check(schema, args, "$", issues);
+  }
+  return issues;
+}
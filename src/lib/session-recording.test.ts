@@ -0,0 +1,157 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { MultimodalLiveClient } from "./multimodal-live-client";
+import {
+  parseSession,
+  ReplayTransport,
+  Session,
+  SessionRecorder,
+} from "./session-recording";
+import { fakeServer, wait } from "./test-utils";
+
+const config = { model: "models/test" };
+
+// jsdom's Blob has no `text()`
+const readBlob = (blob: Blob) =>
+  new Promise<string>((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.readAsText(blob);
+  });
+
+const session: Session = {
+  header: { type: "header", version: 1, startedAt: "2024-12-11T10:00:00.000Z" },
+  frames: [
+    { type: "frame", t: 0, direction: "out", message: { setup: config } },
+    { type: "frame", t: 20, direction: "in", message: { setupComplete: {} } },
+    {
+      type: "frame",
+      t: 40,
+      direction: "in",
+      message: { serverContent: { turnComplete: true } },
+    },
+  ],
+};
+
+describe("SessionRecorder", () => {
+  it("records the frames in both directions into a file parseSession reads", async () => {
+    const server = fakeServer();
+    const client = new MultimodalLiveClient({ transport: server.transport });
+    const recorder = new SessionRecorder();
+    recorder.start(client);
+
+    await client.connect(config);
+    await wait(10);
+    client.send([{ text: "hi" }]);
+    await wait(10);
+    recorder.stop();
+    client.send([{ text: "not recorded" }]);
+    await wait(10);
+
+    const { header, frames } = parseSession(recorder.toNDJSON());
+    expect(header).toEqual(
+      expect.objectContaining({ type: "header", version: 1 }),
+    );
+    expect(
+      frames.map(({ direction, message }) => [direction, message]),
+    ).toEqual([
+      ["out", { setup: config }],
+      ["in", { setupComplete: {} }],
+      [
+        "out",
+        {
+          clientContent: {
+            turns: [{ role: "user", parts: [{ text: "hi" }] }],
+            turnComplete: true,
+          },
+        },
+      ],
+    ]);
+    // ms since the start, in order
+    const times = frames.map(({ t }) => t);
+    expect(times).toEqual([...times].sort((a, b) => a - b));
+  });
+});
+
+describe("parseSession", () => {
+  it("skips blank lines", () => {
+    const ndjson = [session.header, ...session.frames]
+      .map((line) => JSON.stringify(line))
+      .join("\n\n");
+    expect(parseSession(`${ndjson}\n`)).toEqual(session);
+  });
+
+  it("refuses a file without a header or with another version", () => {
+    expect(() => parseSession(JSON.stringify(session.frames[0]))).toThrow(
+      "session file must start with a header line",
+    );
+    expect(() =>
+      parseSession(JSON.stringify({ ...session.header, version: 2 })),
+    ).toThrow('unsupported session version "2"');
+  });
+});
+
+describe("ReplayTransport", () => {
+  it("plays back the incoming frames and closes when done", async () => {
+    const transport = new ReplayTransport(session, { speed: Infinity });
+    const events: unknown[] = [];
+    transport.on("open", () => events.push("open"));
+    transport.on("message", (data) => events.push(data));
+    const closed = new Promise((resolve) => transport.on("close", resolve));
+    // what the client sends is ignored
+    transport.send(JSON.stringify({ setup: config }));
+
+    expect(await closed).toEqual({ code: 1000, reason: "replay finished" });
+    const [open, ...messages] = events;
+    expect(open).toBe("open");
+    expect(
+      await Promise.all(
+        messages.map(async (m) => JSON.parse(await readBlob(m as Blob))),
+      ),
+    ).toEqual([
+      { setupComplete: {} },
+      { serverContent: { turnComplete: true } },
+    ]);
+  });
+
+  it("keeps the recorded pace divided by the speed", async () => {
+    const transport = new ReplayTransport(session, { speed: 2 });
+    const times: number[] = [];
+    const start = Date.now();
+    transport.on("message", () => times.push(Date.now() - start));
+    await new Promise((resolve) => transport.on("close", resolve));
+
+    expect(times).toHaveLength(2);
+    expect(times[0]).toBeGreaterThanOrEqual(9);
+    expect(times[1]).toBeGreaterThanOrEqual(19);
+  });
+
+  it("stops playing back once it is closed", async () => {
+    const transport = new ReplayTransport(session);
+    const message = jest.fn();
+    const close = jest.fn();
+    transport.on("message", message).on("close", close);
+
+    transport.close(1000, "bye");
+    transport.close();
+    await wait(60);
+
+    expect(message).not.toHaveBeenCalled();
+    expect(close).toHaveBeenCalledTimes(1);
+    expect(close).toHaveBeenCalledWith({ code: 1000, reason: "bye" });
+  });
+});
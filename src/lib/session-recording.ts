@@ -0,0 +1,180 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Records every frame a client sends and receives into a single NDJSON
+ * session file and replays such a file without any network, through a
+ * transport that feeds the recorded server messages back to the client.
+ *
+ * file layout: one header line followed by one line per frame
+ * {"type":"header","version":1,"startedAt":"2024-12-11T10:00:00.000Z"}
+ * {"type":"frame","t":12,"direction":"out","message":{"setup":{...}}}
+ * {"type":"frame","t":230,"direction":"in","message":{"setupComplete":{}}}
+ */
+import { EventEmitter } from "eventemitter3";
+import { FrameDirection, MultimodalLiveClient } from "./multimodal-live-client";
+import {
+  LiveTransport,
+  LiveTransportEventTypes,
+  LiveTransportFactory,
+} from "./transports/transport";
+
+export type SessionHeader = {
+  type: "header";
+  version: 1;
+  startedAt: string;
+};
+
+export type SessionFrame = {
+  type: "frame";
+  // ms since the recording started
+  t: number;
+  direction: FrameDirection;
+  message: object;
+};
+
+export type Session = {
+  header: SessionHeader;
+  frames: SessionFrame[];
+};
+
+export class SessionRecorder {
+  private header: SessionHeader | null = null;
+  private frames: SessionFrame[] = [];
+  private startedAt = 0;
+  private client: MultimodalLiveClient | null = null;
+
+  get recording() {
+    return this.client !== null;
+  }
+
+  /**
+   * starts a new recording, anything recorded before is discarded
+   */
+  start(client: MultimodalLiveClient) {
+    this.stop();
+    this.startedAt = Date.now();
+    this.header = {
+      type: "header",
+      version: 1,
+      startedAt: new Date(this.startedAt).toISOString(),
+    };
+    this.frames = [];
+    this.client = client;
+    client.on("frame", this.onFrame);
+  }
+
+  stop() {
+    this.client?.off("frame", this.onFrame);
+    this.client = null;
+  }
+
+  private onFrame = (direction: FrameDirection, message: object) => {
+    this.frames.push({
+      type: "frame",
+      t: Date.now() - this.startedAt,
+      direction,
+      message,
+    });
+  };
+
+  toNDJSON() {
+    if (!this.header) {
+      return "";
+    }
+    return [this.header, ...this.frames]
+      .map((line) => JSON.stringify(line))
+      .join("\n");
+  }
+
+  toBlob() {
+    return new Blob([this.toNDJSON()], { type: "application/x-ndjson" });
+  }
+}
+
+export function parseSession(ndjson: string): Session {
+  const lines = ndjson
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line));
+  const [header, ...frames] = lines;
+  if (!header || header.type !== "header") {
+    throw new Error("session file must start with a header line");
+  }
+  if (header.version !== 1) {
+    throw new Error(`unsupported session version "${header.version}"`);
+  }
+  return { header, frames: frames.filter((f) => f.type === "frame") };
+}
+
+export type ReplayOptions = {
+  // 1 replays at the recorded pace, 2 twice as fast, Infinity without delays
+  speed?: number;
+};
+
+/**
+ * plays back the incoming frames of a session, whatever the client sends is ignored
+ */
+export class ReplayTransport
+  extends EventEmitter<LiveTransportEventTypes>
+  implements LiveTransport
+{
+  public readonly bufferedAmount = 0;
+  private timeouts: ReturnType<typeof setTimeout>[] = [];
+  private closed = false;
+
+  constructor(session: Session, { speed = 1 }: ReplayOptions = {}) {
+    super();
+    const incoming = session.frames.filter(
+      ({ direction }) => direction === "in",
+    );
+    const delay = (t: number) => (Number.isFinite(speed) ? t / speed : 0);
+
+    this.schedule(0, () => this.emit("open"));
+    incoming.forEach((frame) =>
+      this.schedule(delay(frame.t), () =>
+        // recorded frames are delivered like the live api does, as binary
+        this.emit("message", new Blob([JSON.stringify(frame.message)])),
+      ),
+    );
+    const end = incoming.length ? incoming[incoming.length - 1].t : 0;
+    this.schedule(delay(end), () => this.close(1000, "replay finished"));
+  }
+
+  private schedule(delay: number, fn: () => void) {
+    this.timeouts.push(setTimeout(() => !this.closed && fn(), delay));
+  }
+
+  send(_data: string) {}
+
+  close(code: number = 1000, reason: string = "") {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.timeouts.forEach(clearTimeout);
+    this.timeouts = [];
+    setTimeout(() => this.emit("close", { code, reason }));
+  }
+}
+
+export const replayTransport =
+  (session: Session | string, options?: ReplayOptions): LiveTransportFactory =>
+  () =>
+    new ReplayTransport(
+      typeof session === "string" ? parseSession(session) : session,
+      options,
+    );
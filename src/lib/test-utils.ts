@@ -0,0 +1,70 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * helpers for the tests that drive a client through a `MemoryTransport`
+ */
+import {
+  MemoryTransport,
+  memoryTransport,
+} from "./transports/memory-transport";
+import { LiveTransportFactory } from "./transports/transport";
+
+export type Connection = {
+  // the parsed messages the client sent
+  received: any[];
+  reply: (message: object) => void;
+  close: (code: number, reason?: string) => void;
+};
+
+export const setupOnly = (connection: Connection, message: any) => {
+  if (message.setup) {
+    connection.reply({ setupComplete: {} });
+  }
+};
+
+/**
+ * a fake Live API on the other end of a memory transport. it answers with
+ * text frames, jsdom's Blob can not be read back
+ */
+export function fakeServer(
+  handle: (
+    connection: Connection,
+    message: any,
+    index: number,
+  ) => void = setupOnly,
+) {
+  const connections: Connection[] = [];
+  const transport: LiveTransportFactory = (url) => {
+    const memory = memoryTransport(() => {})(url) as MemoryTransport;
+    const index = connections.length;
+    const connection: Connection = {
+      received: [],
+      reply: (message) => memory.deliver(JSON.stringify(message)),
+      close: (code, reason = "") => memory.remote.close(code, reason),
+    };
+    memory.remote.on("message", (message) => {
+      connection.received.push(message);
+      handle(connection, message, index);
+    });
+    connections.push(connection);
+    return memory;
+  };
+  return { transport, connections };
+}
+
+export const wait = (ms: number = 0) =>
+  new Promise((resolve) => setTimeout(resolve, ms));
@@ -0,0 +1,65 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { UsageMetadata } from "../multimodal-live-types";
+import { addTokenUsage, emptyTokenUsage } from "./token-usage";
+
+describe("addTokenUsage", () => {
+  it("adds up the counts of every report", () => {
+    const reports: UsageMetadata[] = [
+      { promptTokenCount: 10, responseTokenCount: 4, totalTokenCount: 14 },
+      { promptTokenCount: 5, totalTokenCount: 5 },
+    ];
+    const usage = reports.reduce(addTokenUsage, emptyTokenUsage);
+
+    expect(usage).toEqual({
+      promptTokens: 15,
+      responseTokens: 4,
+      totalTokens: 19,
+      promptTokensByModality: {},
+      responseTokensByModality: {},
+    });
+  });
+
+  it("splits the counts by modality when the server reports it", () => {
+    const reports: UsageMetadata[] = [
+      {
+        promptTokensDetails: [
+          { modality: "AUDIO", tokenCount: 100 },
+          { modality: "TEXT", tokenCount: 8 },
+        ],
+        responseTokensDetails: [{ modality: "AUDIO", tokenCount: 50 }],
+      },
+      {
+        promptTokensDetails: [{ modality: "AUDIO", tokenCount: 20 }],
+        responseTokensDetails: [{ modality: "AUDIO", tokenCount: 0 }],
+      },
+    ];
+    const usage = reports.reduce(addTokenUsage, emptyTokenUsage);
+
+    expect(usage.promptTokensByModality).toEqual({ AUDIO: 120, TEXT: 8 });
+    expect(usage.responseTokensByModality).toEqual({ AUDIO: 50 });
+  });
+
+  it("leaves the usage it adds to as it is", () => {
+    addTokenUsage(emptyTokenUsage, {
+      promptTokenCount: 1,
+      promptTokensDetails: [{ modality: "TEXT", tokenCount: 1 }],
+    });
+    expect(emptyTokenUsage.promptTokens).toBe(0);
+    expect(emptyTokenUsage.promptTokensByModality).toEqual({});
+  });
+});
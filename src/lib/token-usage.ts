@@ -0,0 +1,68 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { ModalityTokenCount, UsageMetadata } from "../multimodal-live-types";
+
+/**
+ * running token totals of a session
+ */
+export type TokenUsage = {
+  promptTokens: number;
+  responseTokens: number;
+  totalTokens: number;
+  // only filled in when the server reports the split, e.g. { AUDIO: 120, TEXT: 8 }
+  promptTokensByModality: Record<string, number>;
+  responseTokensByModality: Record<string, number>;
+};
+
+export const emptyTokenUsage: TokenUsage = {
+  promptTokens: 0,
+  responseTokens: 0,
+  totalTokens: 0,
+  promptTokensByModality: {},
+  responseTokensByModality: {},
+};
+
+const addByModality = (
+  totals: Record<string, number>,
+  details: ModalityTokenCount[] = [],
+) =>
+  details.reduce(
+    (acc, { modality, tokenCount = 0 }) => ({
+      ...acc,
+      [modality]: (acc[modality] || 0) + tokenCount,
+    }),
+    totals,
+  );
+
+export function addTokenUsage(
+  usage: TokenUsage,
+  metadata: UsageMetadata,
+): TokenUsage {
+  return {
+    promptTokens: usage.promptTokens + (metadata.promptTokenCount || 0),
+    responseTokens: usage.responseTokens + (metadata.responseTokenCount || 0),
+    totalTokens: usage.totalTokens + (metadata.totalTokenCount || 0),
+    promptTokensByModality: addByModality(
+      usage.promptTokensByModality,
+      metadata.promptTokensDetails,
+    ),
+    responseTokensByModality: addByModality(
+      usage.responseTokensByModality,
+      metadata.responseTokensDetails,
+    ),
+  };
+}
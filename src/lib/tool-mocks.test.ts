@@ -0,0 +1,90 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { mockError, renderMock } from "./tool-mocks";
+
+describe("renderMock", () => {
+  it("sends canned json as it is", () => {
+    expect(
+      renderMock(
+        { kind: "json", source: '{ "city": "{{city}}", "ok": true }' },
+        { city: "Paris" },
+      ),
+    ).toEqual({ city: "{{city}}", ok: true });
+  });
+
+  it("fills the call args into a template", () => {
+    expect(
+      renderMock(
+        {
+          kind: "template",
+          source: JSON.stringify({
+            forecast: "sunny in {{city}} for {{ days }} days",
+            days: "{{days}}",
+            options: "{{options}}",
+            first: ["{{points[0].x}}"],
+          }),
+        },
+        {
+          city: "Paris",
+          days: 3,
+          options: { units: "celsius" },
+          points: [{ x: 1 }],
+        },
+      ),
+    ).toEqual({
+      forecast: "sunny in Paris for 3 days",
+      days: 3,
+      options: { units: "celsius" },
+      first: [1],
+    });
+  });
+
+  it("fills in args that are missing as null, or nothing within text", () => {
+    expect(
+      renderMock(
+        {
+          kind: "template",
+          source: '{ "a": "{{missing}}", "b": "x{{missing}}y" }',
+        },
+        {},
+      ),
+    ).toEqual({ a: null, b: "xy" });
+  });
+
+  it("inserts objects within text as json", () => {
+    expect(
+      renderMock(
+        { kind: "template", source: '"got {{options}}"' },
+        { options: { units: "celsius" } },
+      ),
+    ).toBe('got {"units":"celsius"}');
+  });
+});
+
+describe("mockError", () => {
+  it("is null for a mock that can be used", () => {
+    expect(
+      mockError({ kind: "template", source: '{ "a": "{{b}}" }' }),
+    ).toBeNull();
+  });
+
+  it("explains why the source is not valid json", () => {
+    expect(mockError({ kind: "json", source: "{ nope" })).toEqual(
+      expect.any(String),
+    );
+  });
+});
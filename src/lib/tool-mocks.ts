@@ -0,0 +1,80 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { get, isPlainObject, mapValues } from "lodash";
+
+/**
+ * a canned answer for a function that has no handler yet
+ */
+export type ToolMock = {
+  // "json" is sent as is, "template" fills in the args of the call first
+  kind: "json" | "template";
+  source: string;
+};
+
+/**
+ * `{{path}}` placeholders in the strings of a template are looked up in the
+ * call args. a string that is nothing but a placeholder takes the arg's value
+ * whatever its type, e.g. with args `{ city: "Paris", days: 3 }`
+ * `{ "forecast": "sunny in {{city}}", "days": "{{days}}" }` becomes
+ * `{ "forecast": "sunny in Paris", "days": 3 }`
+ */
+const PLACEHOLDER = /\{\{\s*([\w.[\]]+)\s*\}\}/g;
+const ONLY_PLACEHOLDER = /^\{\{\s*([\w.[\]]+)\s*\}\}$/;
+
+const fill = (value: unknown, args: object): unknown => {
+  if (typeof value === "string") {
+    const only = value.match(ONLY_PLACEHOLDER);
+    if (only) {
+      return get(args, only[1]) ?? null;
+    }
+    return value.replace(PLACEHOLDER, (_, path) => {
+      const arg = get(args, path);
+      if (arg === undefined || arg === null) {
+        return "";
+      }
+      return typeof arg === "string" ? arg : JSON.stringify(arg);
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map((v) => fill(v, args));
+  }
+  if (isPlainObject(value)) {
+    return mapValues(value as object, (v) => fill(v, args));
+  }
+  return value;
+};
+
+/**
+ * the response output of `mock` for a call with `args`,
+ * throws if its source is not valid json
+ */
+export function renderMock({ kind, source }: ToolMock, args: object) {
+  const value: unknown = JSON.parse(source);
+  return kind === "template" ? fill(value, args) : value;
+}
+
+/**
+ * why `mock` can not be used, or null if it can
+ */
+export function mockError(mock: ToolMock): string | null {
+  try {
+    renderMock(mock, {});
+    return null;
+  } catch (e) {
+    return e instanceof Error ? e.message : String(e);
+  }
+}
@@ -0,0 +1,304 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { SchemaType } from "@google/generative-ai";
+import { MultimodalLiveClient } from "./multimodal-live-client";
+import { fakeServer, wait } from "./test-utils";
+import { mergeDeclarations, ToolRegistry } from "./tool-registry";
+
+const config = { model: "models/test" };
+
+const declaration = (name: string) => ({
+  name,
+  parameters: {
+    type: SchemaType.OBJECT,
+    properties: { city: { type: SchemaType.STRING } },
+  },
+});
+
+const toolCall = (
+  ...functionCalls: Array<{ id: string; name: string; args?: object }>
+) => ({
+  toolCall: {
+    functionCalls: functionCalls.map((call) => ({ args: {}, ...call })),
+  },
+});
+
+// a connected client with the registry attached
+async function setup(registry: ToolRegistry) {
+  const server = fakeServer();
+  const client = new MultimodalLiveClient({ transport: server.transport });
+  registry.attach(client);
+  await client.connect(config);
+  await wait(10);
+  const connection = server.connections[0];
+  const responses = () =>
+    connection.received
+      .filter((m) => m.toolResponse)
+      .flatMap((m) => m.toolResponse.functionResponses);
+  return { client, connection, responses };
+}
+
+describe("ToolRegistry", () => {
+  it("answers calls with what the handler returns or throws", async () => {
+    const registry = new ToolRegistry();
+    registry.register(declaration("weather"), ({ city }: { city: string }) => ({
+      city,
+      sunny: true,
+    }));
+    registry.register(declaration("nothing"), () => {});
+    registry.register(declaration("broken"), async () => {
+      throw new Error("no forecast");
+    });
+    const { connection, responses } = await setup(registry);
+
+    connection.reply(
+      toolCall(
+        { id: "1", name: "weather", args: { city: "Oslo" } },
+        { id: "2", name: "nothing" },
+        { id: "3", name: "broken" },
+      ),
+    );
+    await wait(10);
+
+    expect(responses()).toEqual(
+      expect.arrayContaining([
+        { id: "1", response: { output: { city: "Oslo", sunny: true } } },
+        { id: "2", response: { output: null } },
+        { id: "3", response: { error: "no forecast" } },
+      ]),
+    );
+    expect(responses()).toHaveLength(3);
+  });
+
+  it("leaves calls to unregistered functions to other listeners", async () => {
+    const registry = new ToolRegistry();
+    const { client, connection, responses } = await setup(registry);
+    const toolcall = jest.fn();
+    client.on("toolcall", toolcall);
+
+    connection.reply(toolCall({ id: "1", name: "unknown" }));
+    await wait(10);
+
+    expect(toolcall).toHaveBeenCalled();
+    expect(responses()).toEqual([]);
+  });
+
+  it("only removes a tool that has not been replaced since", () => {
+    const registry = new ToolRegistry();
+    const change = jest.fn();
+    registry.on("change", change);
+
+    const removeFirst = registry.register(declaration("weather"), () => 1);
+    const removeSecond = registry.register(declaration("weather"), () => 2);
+    removeFirst();
+    expect(registry.declarations()).toEqual([declaration("weather")]);
+    removeSecond();
+    expect(registry.declarations()).toEqual([]);
+    expect(change).toHaveBeenCalledTimes(3);
+  });
+
+  it("stops answering once detached", async () => {
+    const registry = new ToolRegistry();
+    const handler = jest.fn();
+    registry.register(declaration("weather"), handler);
+    const server = fakeServer();
+    const client = new MultimodalLiveClient({ transport: server.transport });
+    const detach = registry.attach(client);
+    await client.connect(config);
+    await wait(10);
+
+    detach();
+    server.connections[0].reply(toolCall({ id: "1", name: "weather" }));
+    await wait(10);
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
+
+describe("cancellation", () => {
+  // a handler that only settles once its call is aborted
+  const untilAborted = () =>
+    jest.fn(
+      (_: object, { signal }: { signal: AbortSignal }) =>
+        new Promise((resolve) =>
+          signal.addEventListener("abort", () => resolve("too late")),
+        ),
+    );
+
+  it("aborts a call the server cancels and drops its response", async () => {
+    const registry = new ToolRegistry();
+    registry.register(declaration("slow"), untilAborted());
+    registry.register(declaration("fast"), () => "done");
+    const { connection, responses } = await setup(registry);
+
+    connection.reply(
+      toolCall({ id: "1", name: "slow" }, { id: "2", name: "fast" }),
+    );
+    await wait(10);
+    connection.reply({ toolCallCancellation: { ids: ["1"] } });
+    await wait(10);
+
+    expect(responses()).toEqual([{ id: "2", response: { output: "done" } }]);
+  });
+
+  it("aborts the calls of a session that ends", async () => {
+    const registry = new ToolRegistry();
+    const handler = untilAborted();
+    registry.register(declaration("slow"), handler);
+    const { client, connection } = await setup(registry);
+
+    connection.reply(toolCall({ id: "1", name: "slow" }));
+    await wait(10);
+    const [, { signal }] = handler.mock.calls[0];
+    client.disconnect();
+    await wait(10);
+
+    expect(signal.aborted).toBe(true);
+  });
+
+  it("does not answer a call of the previous session in a new one", async () => {
+    const registry = new ToolRegistry();
+    registry.register(declaration("slow"), () => wait(20));
+    const server = fakeServer();
+    const client = new MultimodalLiveClient({ transport: server.transport });
+    registry.attach(client);
+    await client.connect(config);
+    await wait(10);
+
+    server.connections[0].reply(toolCall({ id: "1", name: "slow" }));
+    await wait(10);
+    await client.reconfigure(config);
+    await wait(30);
+
+    expect(server.connections[1].received).toEqual([{ setup: config }]);
+  });
+});
+
+describe("approvals", () => {
+  const approval = { requiresApproval: true };
+
+  it("runs a call once it is approved, with edited args if given", async () => {
+    const registry = new ToolRegistry();
+    const handler = jest.fn(({ city }: { city: string }) => city);
+    registry.register(declaration("weather"), handler, approval);
+    const { connection, responses } = await setup(registry);
+
+    connection.reply(
+      toolCall(
+        { id: "1", name: "weather", args: { city: "Oslo" } },
+        { id: "2", name: "weather", args: { city: "Oslo" } },
+      ),
+    );
+    await wait(10);
+    expect(registry.pendingApprovals().map((a) => a.call.id)).toEqual([
+      "1",
+      "2",
+    ]);
+    expect(handler).not.toHaveBeenCalled();
+
+    registry.approve("1");
+    // edits that do not match the declaration keep it waiting
+    expect(registry.approve("2", { city: 3 })).toEqual([
+      expect.objectContaining({ path: "$.city" }),
+    ]);
+    registry.approve("2", { city: "Bergen" });
+    await wait(10);
+
+    expect(responses()).toEqual([
+      { id: "1", response: { output: "Oslo" } },
+      { id: "2", response: { output: "Bergen" } },
+    ]);
+    expect(registry.pendingApprovals()).toEqual([]);
+  });
+
+  it("declines a call that is rejected or not approved in time", async () => {
+    const registry = new ToolRegistry();
+    const handler = jest.fn();
+    registry.register(declaration("weather"), handler, approval);
+    registry.register(declaration("time"), handler, {
+      ...approval,
+      approvalTimeout: 20,
+    });
+    const { connection, responses } = await setup(registry);
+
+    connection.reply(
+      toolCall({ id: "1", name: "weather" }, { id: "2", name: "time" }),
+    );
+    await wait(10);
+    registry.reject("1");
+    await wait(30);
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(responses()).toEqual([
+      {
+        id: "1",
+        response: { error: "the user declined the call", declined: true },
+      },
+      {
+        id: "2",
+        response: { error: "not approved within 0.02s", declined: true },
+      },
+    ]);
+  });
+
+  it("drops the calls still waiting when their session ends", async () => {
+    const registry = new ToolRegistry();
+    const handler = jest.fn();
+    registry.register(declaration("weather"), handler, approval);
+    const server = fakeServer();
+    const client = new MultimodalLiveClient({ transport: server.transport });
+    registry.attach(client);
+    await client.connect(config);
+    await wait(10);
+
+    server.connections[0].reply(toolCall({ id: "1", name: "weather" }));
+    await wait(10);
+    await client.reconfigure(config);
+    await wait(10);
+
+    expect(registry.pendingApprovals()).toEqual([]);
+    // approving it late changes nothing
+    registry.approve("1");
+    await wait(10);
+    expect(handler).not.toHaveBeenCalled();
+    expect(server.connections[0].received).toHaveLength(1);
+    expect(server.connections[1].received).toEqual([{ setup: config }]);
+  });
+});
+
+describe("mergeDeclarations", () => {
+  it("adds the declarations the config does not have by name yet", () => {
+    const edited = { ...declaration("weather"), description: "edited" };
+    const withWeather = {
+      ...config,
+      tools: [{ googleSearch: {} }, { functionDeclarations: [edited] }],
+    };
+
+    const merged = mergeDeclarations(withWeather, [
+      declaration("weather"),
+      declaration("time"),
+    ]);
+
+    expect(merged.tools).toEqual([
+      { googleSearch: {} },
+      { functionDeclarations: [edited] },
+      { functionDeclarations: [declaration("time")] },
+    ]);
+    // nothing left to add
+    expect(mergeDeclarations(merged, [declaration("time")])).toBe(merged);
+  });
+});
@@ -0,0 +1,364 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  FunctionDeclaration,
+  FunctionDeclarationsTool,
+} from "@google/generative-ai";
+import { EventEmitter } from "eventemitter3";
+import { isUndefined, omitBy } from "lodash";
+import {
+  LiveConfig,
+  LiveFunctionCall,
+  ToolCall,
+  ToolCallCancellation,
+} from "../multimodal-live-types";
+import type { ValidationIssue } from "./message-validation";
+import type { MultimodalLiveClient } from "./multimodal-live-client";
+import { validateArgs } from "./schema-validation";
+
+export type ToolContext = {
+  call: LiveFunctionCall;
+  // aborted when the server cancels the call or its session ends,
+  // its response is dropped then
+  signal: AbortSignal;
+};
+
+/**
+ * runs a function call, whatever it resolves with is sent back as the
+ * `output` of the function response, a thrown error as its `error`.
+ * the args have been checked against the declaration's `parameters`
+ */
+export type ToolHandler<Args extends object = any, Result = unknown> = (
+  args: Args,
+  context: ToolContext,
+) => Result | Promise<Result>;
+
+export type ToolOptions = {
+  // every call waits for the user to approve, edit or reject it first
+  requiresApproval: boolean;
+  // ms until a call still waiting for approval is rejected, 0 waits forever
+  approvalTimeout: number;
+};
+
+export const defaultToolOptions: ToolOptions = {
+  requiresApproval: false,
+  approvalTimeout: 0,
+};
+
+export type RegisteredTool = {
+  declaration: FunctionDeclaration;
+  handler: ToolHandler;
+  options: ToolOptions;
+};
+
+export type PendingApproval = {
+  call: LiveFunctionCall;
+  declaration: FunctionDeclaration;
+  // when it gets rejected on its own, if the tool has a timeout
+  expiresAt?: number;
+};
+
+type ApprovalDecision =
+  { approved: true; args: object } | { approved: false; reason: string };
+
+interface ToolRegistryEventTypes {
+  // a tool was registered or removed
+  change: () => void;
+  // a call started or stopped waiting for approval
+  approvals: () => void;
+}
+
+const isFunctionDeclarationsTool = (
+  tool: unknown,
+): tool is FunctionDeclarationsTool =>
+  Array.isArray((tool as FunctionDeclarationsTool).functionDeclarations);
+
+/**
+ * all the function declarations in `config.tools`
+ */
+export const configDeclarations = (config: LiveConfig) =>
+  (config.tools || [])
+    .filter(isFunctionDeclarationsTool)
+    .flatMap((t) => t.functionDeclarations || []);
+
+/**
+ * adds the declarations `config.tools` does not have by name yet
+ */
+export function mergeDeclarations(
+  config: LiveConfig,
+  declarations: FunctionDeclaration[],
+): LiveConfig {
+  const tools = config.tools || [];
+  const declared = new Set(configDeclarations(config).map((fd) => fd.name));
+  const missing = declarations.filter((d) => !declared.has(d.name));
+  if (!missing.length) {
+    return config;
+  }
+  return {
+    ...config,
+    tools: [...tools, { functionDeclarations: missing }],
+  };
+}
+
+/**
+ * Pairs function declarations with the code that runs them. The declarations
+ * are merged into the config with `applyTo`, and once attached to a client
+ * every `toolcall` for a registered function is answered with its result.
+ */
+export class ToolRegistry extends EventEmitter<ToolRegistryEventTypes> {
+  private tools = new Map<string, RegisteredTool>();
+  // stand-ins for functions without a registered tool
+  private mocks = new Map<string, RegisteredTool>();
+  // by call id
+  private inFlight = new Map<string, AbortController>();
+  private approvals = new Map<
+    string,
+    { approval: PendingApproval; decide: (decision: ApprovalDecision) => void }
+  >();
+
+  /**
+   * registers (or replaces) the tool by its declaration's name,
+   * returns a function that removes it again
+   */
+  register<Args extends object>(
+    declaration: FunctionDeclaration,
+    handler: ToolHandler<Args>,
+    options: Partial<ToolOptions> = {},
+  ) {
+    const tool: RegisteredTool = {
+      declaration,
+      handler,
+      // options left undefined keep their default
+      options: { ...defaultToolOptions, ...omitBy(options, isUndefined) },
+    };
+    this.tools.set(declaration.name, tool);
+    this.emit("change");
+    return () => {
+      // only if it has not been replaced since
+      if (this.tools.get(declaration.name) === tool) {
+        this.tools.delete(declaration.name);
+        this.emit("change");
+      }
+    };
+  }
+
+  /**
+   * answers the calls to a function with `handler` as long as no tool is
+   * registered for it. the declaration is not added to the config, it is
+   * expected to be there already. returns a function that removes the mock
+   */
+  mock(declaration: FunctionDeclaration, handler: ToolHandler) {
+    const mock: RegisteredTool = {
+      declaration,
+      handler,
+      options: defaultToolOptions,
+    };
+    this.mocks.set(declaration.name, mock);
+    return () => {
+      if (this.mocks.get(declaration.name) === mock) {
+        this.mocks.delete(declaration.name);
+      }
+    };
+  }
+
+  get(name: string) {
+    return this.tools.get(name);
+  }
+
+  declarations() {
+    return Array.from(this.tools.values()).map((t) => t.declaration);
+  }
+
+  pendingApprovals() {
+    return Array.from(this.approvals.values()).map((a) => a.approval);
+  }
+
+  /**
+   * runs a call that waits for approval, with `args` in place of the ones
+   * the model sent if given. edited args that do not match the declaration
+   * are returned as issues and the call keeps waiting
+   */
+  approve(id: string, args?: object): ValidationIssue[] {
+    const pending = this.approvals.get(id);
+    if (!pending) {
+      return [];
+    }
+    const approvedArgs = args || pending.approval.call.args || {};
+    const issues = validateArgs(
+      pending.approval.declaration.parameters,
+      approvedArgs,
+    );
+    if (!issues.length) {
+      pending.decide({ approved: true, args: approvedArgs });
+    }
+    return issues;
+  }
+
+  /**
+   * answers a call that waits for approval with a declined response
+   */
+  reject(id: string, reason = "the user declined the call") {
+    this.approvals.get(id)?.decide({ approved: false, reason });
+  }
+
+  /**
+   * adds the declarations of all registered tools to `config.tools`.
+   * a declaration the config already has by the same name is kept, so
+   * applying twice changes nothing and edits made to the config stick
+   */
+  applyTo(config: LiveConfig): LiveConfig {
+    return mergeDeclarations(config, this.declarations());
+  }
+
+  /**
+   * answers the tool calls of `client`, returns a function that stops it
+   */
+  attach(client: MultimodalLiveClient) {
+    const onToolCall = (toolCall: ToolCall) => this.dispatch(client, toolCall);
+    const onCancellation = ({ ids }: ToolCallCancellation) =>
+      ids.forEach((id) => this.inFlight.get(id)?.abort());
+    // a response would go to the next session, which never made the call
+    const onSessionEnd = () => this.abortAll();
+    client
+      .on("toolcall", onToolCall)
+      .on("toolcallcancellation", onCancellation)
+      .on("close", onSessionEnd)
+      .on("reconnecting", onSessionEnd)
+      .on("open", onSessionEnd);
+    return () => {
+      client
+        .off("toolcall", onToolCall)
+        .off("toolcallcancellation", onCancellation)
+        .off("close", onSessionEnd)
+        .off("reconnecting", onSessionEnd)
+        .off("open", onSessionEnd);
+    };
+  }
+
+  private abortAll() {
+    this.inFlight.forEach((controller) => controller.abort());
+  }
+
+  private dispatch(client: MultimodalLiveClient, { functionCalls }: ToolCall) {
+    functionCalls.forEach(async (call) => {
+      const tool = this.tools.get(call.name) || this.mocks.get(call.name);
+      // left for other `toolcall` listeners
+      if (!tool) {
+        return;
+      }
+      const args = call.args || {};
+      const issues = validateArgs(tool.declaration.parameters, args);
+      // the handler never sees them, the model gets what to fix instead
+      if (issues.length) {
+        const error = `invalid arguments for ${call.name}`;
+        client.log(
+          "client.tool",
+          `${error}: ${issues.map((i) => `${i.path}: ${i.message}`).join(", ")}`,
+        );
+        client.sendToolResponse({
+          functionResponses: [{ id: call.id, response: { error, issues } }],
+        });
+        return;
+      }
+      const controller = new AbortController();
+      this.inFlight.set(call.id, controller);
+      let response: { output?: unknown; error?: string; declined?: boolean };
+      try {
+        response = await this.run(tool, call, args, controller.signal);
+      } finally {
+        this.inFlight.delete(call.id);
+      }
+      // the server no longer waits for it
+      if (controller.signal.aborted) {
+        client.log("client.tool", `${call.name} (${call.id}) was cancelled`);
+        return;
+      }
+      if (response.declined) {
+        client.log("client.tool", `${call.name} declined: ${response.error}`);
+      } else if (response.error !== undefined) {
+        client.log("client.tool", `${call.name} failed: ${response.error}`);
+      }
+      client.sendToolResponse({
+        functionResponses: [{ id: call.id, response }],
+      });
+    });
+  }
+
+  private async run(
+    tool: RegisteredTool,
+    call: LiveFunctionCall,
+    args: object,
+    signal: AbortSignal,
+  ) {
+    if (tool.options.requiresApproval) {
+      const decision = await this.waitForApproval(tool, call, signal);
+      if (!decision.approved) {
+        return { error: decision.reason, declined: true };
+      }
+      args = decision.args;
+    }
+    try {
+      const output = await tool.handler(args, { call, signal });
+      return { output: output === undefined ? null : output };
+    } catch (e) {
+      return { error: errorMessage(e) };
+    }
+  }
+
+  private waitForApproval(
+    tool: RegisteredTool,
+    call: LiveFunctionCall,
+    signal: AbortSignal,
+  ) {
+    return new Promise<ApprovalDecision>((resolve) => {
+      const { approvalTimeout } = tool.options;
+      let timeout: ReturnType<typeof setTimeout> | undefined;
+      const decide = (decision: ApprovalDecision) => {
+        clearTimeout(timeout);
+        signal.removeEventListener("abort", onAbort);
+        this.approvals.delete(call.id);
+        this.emit("approvals");
+        resolve(decision);
+      };
+      const onAbort = () => decide({ approved: false, reason: "cancelled" });
+      signal.addEventListener("abort", onAbort);
+      if (approvalTimeout > 0) {
+        timeout = setTimeout(
+          () =>
+            decide({
+              approved: false,
+              reason: `not approved within ${approvalTimeout / 1000}s`,
+            }),
+          approvalTimeout,
+        );
+      }
+      this.approvals.set(call.id, {
+        approval: {
+          call,
+          declaration: tool.declaration,
+          expiresAt:
+            approvalTimeout > 0 ? Date.now() + approvalTimeout : undefined,
+        },
+        decide,
+      });
+      this.emit("approvals");
+    });
+  }
+}
+
+const errorMessage = (e: unknown) =>
+  e instanceof Error ? e.message : String(e);
@@ -0,0 +1,108 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { EventEmitter } from "eventemitter3";
+import {
+  LiveTransport,
+  LiveTransportCloseEvent,
+  LiveTransportEventTypes,
+  LiveTransportFactory,
+} from "./transport";
+
+interface MemoryTransportRemoteEventTypes {
+  message: (message: any) => void;
+  close: (event: LiveTransportCloseEvent) => void;
+}
+
+/**
+ * the server end of a `MemoryTransport`
+ * receives the parsed json the client sent and answers with plain objects
+ */
+export class MemoryTransportRemote extends EventEmitter<MemoryTransportRemoteEventTypes> {
+  constructor(
+    public url: string,
+    private transport: MemoryTransport,
+  ) {
+    super();
+  }
+
+  // the live api answers with binary frames, so this does too
+  send(message: object) {
+    this.transport.deliver(new Blob([JSON.stringify(message)]));
+  }
+
+  close(code: number = 1000, reason: string = "") {
+    this.transport.end({ code, reason });
+  }
+}
+
+/**
+ * An in-memory transport that never touches the network, handy for unit tests.
+ * Every connection is handed to the `onConnection` callback of `memoryTransport`.
+ */
+export class MemoryTransport
+  extends EventEmitter<LiveTransportEventTypes>
+  implements LiveTransport
+{
+  public readonly bufferedAmount = 0;
+  public readonly remote: MemoryTransportRemote;
+  private closed = false;
+
+  constructor(url: string) {
+    super();
+    this.remote = new MemoryTransportRemote(url, this);
+    // like a websocket, opening happens asynchronously
+    setTimeout(() => !this.closed && this.emit("open"));
+  }
+
+  send(data: string) {
+    if (this.closed) {
+      throw new Error("MemoryTransport is closed");
+    }
+    this.remote.emit("message", JSON.parse(data));
+  }
+
+  close(code: number = 1000, reason: string = "") {
+    this.end({ code, reason });
+  }
+
+  deliver(data: Blob | string) {
+    if (!this.closed) {
+      this.emit("message", data);
+    }
+  }
+
+  end(event: LiveTransportCloseEvent) {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    setTimeout(() => {
+      this.emit("close", event);
+      this.remote.emit("close", event);
+    });
+  }
+}
+
+export const memoryTransport =
+  (
+    onConnection: (remote: MemoryTransportRemote) => void,
+  ): LiveTransportFactory =>
+  (url) => {
+    const transport = new MemoryTransport(url);
+    onConnection(transport.remote);
+    return transport;
+  };
@@ -0,0 +1,171 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Lets the client run on one side of a MessagePort (e.g. in a worker)
+ * while the actual connection is owned by the other side.
+ *
+ * worker:   new MultimodalLiveClient({ apiKey, transport: messagePortTransport(port) })
+ * page:     bridgeMessagePort(otherPort)
+ */
+import { EventEmitter } from "eventemitter3";
+import {
+  LiveTransport,
+  LiveTransportCloseEvent,
+  LiveTransportEventTypes,
+  LiveTransportFactory,
+} from "./transport";
+import { webSocketTransport } from "./websocket-transport";
+
+// messages from the client side to the bridge
+type PortRequest =
+  | { type: "connect"; url: string }
+  | { type: "send"; data: string }
+  | { type: "close"; code?: number; reason?: string };
+
+// messages from the bridge to the client side
+type PortEvent =
+  | { type: "open" }
+  | { type: "message"; data: Blob | string }
+  | ({ type: "close" } & LiveTransportCloseEvent)
+  | { type: "error"; message: string };
+
+export class MessagePortTransport
+  extends EventEmitter<LiveTransportEventTypes>
+  implements LiveTransport
+{
+  public readonly bufferedAmount = 0;
+  private closed = false;
+
+  constructor(
+    url: string,
+    private port: MessagePort,
+  ) {
+    super();
+    this.port.addEventListener("message", this.onPortMessage);
+    this.port.start();
+    this.post({ type: "connect", url });
+  }
+
+  private post(request: PortRequest) {
+    this.port.postMessage(request);
+  }
+
+  private onPortMessage = ({ data }: MessageEvent<PortEvent>) => {
+    // the port outlives the transport, ignore whatever belongs to a later connection
+    if (this.closed) {
+      return;
+    }
+    switch (data.type) {
+      case "open":
+        this.emit("open");
+        break;
+      case "message":
+        this.emit("message", data.data);
+        break;
+      case "error":
+        this.emit("error", new Error(data.message));
+        break;
+      case "close":
+        this.detach();
+        this.emit("close", { code: data.code, reason: data.reason });
+        break;
+    }
+  };
+
+  private detach() {
+    this.closed = true;
+    this.port.removeEventListener("message", this.onPortMessage);
+  }
+
+  send(data: string) {
+    this.post({ type: "send", data });
+  }
+
+  close(code?: number, reason?: string) {
+    if (this.closed) {
+      return;
+    }
+    this.post({ type: "close", code, reason });
+    this.detach();
+    // like a websocket, the close event comes after `close()` returned,
+    // so whoever closed it is done cleaning up by then
+    setTimeout(() =>
+      this.emit("close", { code: code ?? 1000, reason: reason ?? "" }),
+    );
+  }
+}
+
+export const messagePortTransport =
+  (port: MessagePort): LiveTransportFactory =>
+  (url) =>
+    new MessagePortTransport(url, port);
+
+/**
+ * the other side of a `MessagePortTransport`, opens the real connection
+ * and relays frames in both directions. returns a function that stops bridging
+ */
+export function bridgeMessagePort(
+  port: MessagePort,
+  createTransport: LiveTransportFactory = webSocketTransport,
+) {
+  let transport: LiveTransport | null = null;
+  const post = (event: PortEvent) => port.postMessage(event);
+
+  const closeTransport = (code?: number, reason?: string) => {
+    const current = transport;
+    transport = null;
+    if (current) {
+      current.removeAllListeners();
+      current.close(code, reason);
+    }
+  };
+
+  const onMessage = ({ data }: MessageEvent<PortRequest>) => {
+    switch (data.type) {
+      case "connect": {
+        closeTransport();
+        const next = createTransport(data.url);
+        transport = next;
+        next
+          .on("open", () => post({ type: "open" }))
+          .on("message", (data) => post({ type: "message", data }))
+          .on("error", (error) => post({ type: "error", message: `${error}` }))
+          .on("close", ({ code, reason }) => {
+            if (transport === next) {
+              transport = null;
+            }
+            post({ type: "close", code, reason });
+          });
+        break;
+      }
+      case "send":
+        transport?.send(data.data);
+        break;
+      case "close":
+        closeTransport(data.code, data.reason);
+        break;
+    }
+  };
+
+  port.addEventListener("message", onMessage);
+  port.start();
+
+  return () => {
+    port.removeEventListener("message", onMessage);
+    closeTransport();
+  };
+}
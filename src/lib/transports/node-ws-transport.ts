@@ -0,0 +1,71 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * a transport for running the client headless in node, using the `ws` package
+ * this module is not meant to be imported from the browser bundle
+ */
+import { EventEmitter } from "eventemitter3";
+import WebSocket from "ws";
+import {
+  LiveTransport,
+  LiveTransportEventTypes,
+  LiveTransportFactory,
+} from "./transport";
+
+export class NodeWebSocketTransport
+  extends EventEmitter<LiveTransportEventTypes>
+  implements LiveTransport
+{
+  private ws: WebSocket;
+
+  constructor(url: string, options?: WebSocket.ClientOptions) {
+    super();
+    this.ws = new WebSocket(url, options);
+    this.ws.on("open", () => this.emit("open"));
+    this.ws.on("message", (data: WebSocket.RawData, isBinary: boolean) => {
+      const chunks = Array.isArray(data) ? data : [data];
+      // binary frames are handed over as a Blob, just like in the browser
+      this.emit(
+        "message",
+        isBinary
+          ? new Blob(chunks)
+          : Buffer.concat(chunks.map((c) => Buffer.from(c))).toString("utf8"),
+      );
+    });
+    this.ws.on("error", (error: Error) => this.emit("error", error));
+    this.ws.on("close", (code: number, reason: Buffer) =>
+      this.emit("close", { code, reason: reason.toString("utf8") }),
+    );
+  }
+
+  get bufferedAmount() {
+    return this.ws.bufferedAmount;
+  }
+
+  send(data: string) {
+    this.ws.send(data);
+  }
+
+  close(code?: number, reason?: string) {
+    this.ws.close(code, reason);
+  }
+}
+
+export const nodeWebSocketTransport =
+  (options?: WebSocket.ClientOptions): LiveTransportFactory =>
+  (url) =>
+    new NodeWebSocketTransport(url, options);
@@ -0,0 +1,53 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { EventEmitter } from "eventemitter3";
+
+/**
+ * the subset of a websocket close event the client relies on
+ */
+export type LiveTransportCloseEvent = {
+  code: number;
+  reason: string;
+};
+
+/**
+ * the events every transport emits, modelled after the WebSocket events
+ */
+export interface LiveTransportEventTypes {
+  open: () => void;
+  // frames are passed on as they arrive, the client does the parsing
+  message: (data: Blob | string) => void;
+  close: (event: LiveTransportCloseEvent) => void;
+  error: (error: unknown) => void;
+}
+
+/**
+ * A bidirectional channel to a Live API endpoint.
+ * Like a WebSocket, a transport starts connecting as soon as it is created
+ * and emits `open` once `send` can be used.
+ */
+export interface LiveTransport extends EventEmitter<LiveTransportEventTypes> {
+  // bytes that were queued with `send` but not yet written
+  readonly bufferedAmount: number;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+}
+
+/**
+ * creates a new transport for every (re)connect of the client
+ */
+export type LiveTransportFactory = (url: string) => LiveTransport;
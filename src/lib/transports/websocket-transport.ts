@@ -0,0 +1,60 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { EventEmitter } from "eventemitter3";
+import {
+  LiveTransport,
+  LiveTransportEventTypes,
+  LiveTransportFactory,
+} from "./transport";
+
+/**
+ * the default transport, a thin wrapper around the browser's WebSocket
+ */
+export class WebSocketTransport
+  extends EventEmitter<LiveTransportEventTypes>
+  implements LiveTransport
+{
+  private ws: WebSocket;
+
+  constructor(url: string) {
+    super();
+    this.ws = new WebSocket(url);
+    this.ws.addEventListener("open", () => this.emit("open"));
+    this.ws.addEventListener("message", (ev: MessageEvent) =>
+      this.emit("message", ev.data),
+    );
+    this.ws.addEventListener("error", (ev: Event) => this.emit("error", ev));
+    this.ws.addEventListener("close", ({ code, reason }: CloseEvent) =>
+      this.emit("close", { code, reason }),
+    );
+  }
+
+  get bufferedAmount() {
+    return this.ws.bufferedAmount;
+  }
+
+  send(data: string) {
+    this.ws.send(data);
+  }
+
+  close(code?: number, reason?: string) {
+    this.ws.close(code, reason);
+  }
+}
+
+export const webSocketTransport: LiveTransportFactory = (url) =>
+  new WebSocketTransport(url);
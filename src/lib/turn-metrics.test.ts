@@ -0,0 +1,168 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { EventEmitter } from "eventemitter3";
+import type { MultimodalLiveClient } from "./multimodal-live-client";
+import {
+  percentiles,
+  summarizeMetrics,
+  TurnMetrics,
+  TurnMetricsTracker,
+} from "./turn-metrics";
+
+// 16 bit pcm at half volume and silence
+const speech = { mimeType: "audio/pcm;rate=16000", data: "AEAAQA==" };
+const silence = { mimeType: "audio/pcm;rate=16000", data: "AAAAAA==" };
+
+const realtimeInput = (...mediaChunks: (typeof speech)[]) => ({
+  realtimeInput: { mediaChunks },
+});
+
+function setup() {
+  let now = 0;
+  jest.spyOn(Date, "now").mockImplementation(() => now);
+  const client = new EventEmitter();
+  const turns: TurnMetrics[] = [];
+  new TurnMetricsTracker(client as unknown as MultimodalLiveClient, (turn) =>
+    turns.push(turn),
+  );
+  // emits an event at the given time
+  const at = (t: number, event: string, ...args: unknown[]) => {
+    now = t;
+    client.emit(event, ...args);
+  };
+  return { at, turns };
+}
+
+afterEach(() => jest.restoreAllMocks());
+
+describe("TurnMetricsTracker", () => {
+  it("measures the time to first audio from the last speech, not the silence after it", () => {
+    const { at, turns } = setup();
+    at(1000, "frame", "out", realtimeInput(speech));
+    at(1200, "frame", "out", realtimeInput(silence));
+    at(1500, "audio", new ArrayBuffer(2));
+    // the mic keeps streaming during the answer
+    at(1600, "frame", "out", realtimeInput(speech));
+    at(1700, "textdelta", "hi");
+    at(2000, "turncomplete");
+
+    expect(turns).toEqual([
+      expect.objectContaining({
+        timeToFirstAudio: 500,
+        timeToFirstText: 700,
+        turnDuration: 500,
+        interrupted: false,
+        toolRoundTrips: [],
+      }),
+    ]);
+  });
+
+  it("counts a send() as the end of the input", () => {
+    const { at, turns } = setup();
+    at(1000, "frame", "out", realtimeInput(speech));
+    at(3000, "frame", "out", {
+      clientContent: { turns: [], turnComplete: true },
+    });
+    at(3250, "textdelta", "hi");
+    at(3500, "interrupted");
+
+    expect(turns).toEqual([
+      expect.objectContaining({
+        timeToFirstAudio: null,
+        timeToFirstText: 250,
+        turnDuration: 250,
+        interrupted: true,
+      }),
+    ]);
+  });
+
+  it("measures the round trip of each tool call", () => {
+    const { at, turns } = setup();
+    at(100, "toolcall", {
+      functionCalls: [
+        { id: "1", name: "a", args: {} },
+        { id: "2", name: "b", args: {} },
+      ],
+    });
+    at(250, "frame", "out", {
+      toolResponse: {
+        functionResponses: [
+          { id: "1", response: {} },
+          { id: "unknown", response: {} },
+        ],
+      },
+    });
+    at(400, "frame", "out", {
+      toolResponse: { functionResponses: [{ id: "2", response: {} }] },
+    });
+    at(500, "turncomplete");
+
+    expect(turns[0].toolRoundTrips).toEqual([150, 300]);
+    // without any input to measure from
+    expect(turns[0].timeToFirstAudio).toBeNull();
+  });
+
+  it("ignores a turncomplete without an answer and starts over on open", () => {
+    const { at, turns } = setup();
+    at(100, "turncomplete");
+    at(200, "frame", "out", realtimeInput(speech));
+    at(300, "open");
+    at(400, "audio", new ArrayBuffer(2));
+    at(500, "turncomplete");
+
+    expect(turns).toHaveLength(1);
+    expect(turns[0].timeToFirstAudio).toBeNull();
+  });
+});
+
+describe("summarizeMetrics", () => {
+  const turn = (timeToFirstAudio: number | null, interrupted = false) => ({
+    date: new Date(),
+    timeToFirstAudio,
+    timeToFirstText: null,
+    turnDuration: 1000,
+    interrupted,
+    toolRoundTrips: [],
+  });
+
+  it("takes nearest-rank percentiles", () => {
+    const values = Array.from({ length: 100 }, (_, i) => 100 - i);
+    expect(percentiles(values)).toEqual({
+      p50: 50,
+      p90: 90,
+      p99: 99,
+      count: 100,
+    });
+    expect(percentiles([])).toBeNull();
+  });
+
+  it("summarizes the most recent turns and skips missing timings", () => {
+    const turns = [turn(5000), turn(null, true), turn(100), turn(300)];
+    const summary = summarizeMetrics(turns, 3);
+
+    expect(summary.turns).toBe(4);
+    expect(summary.interruptions).toBe(1);
+    expect(summary.timeToFirstAudio).toEqual({
+      p50: 100,
+      p90: 300,
+      p99: 300,
+      count: 2,
+    });
+    expect(summary.timeToFirstText).toBeNull();
+    expect(summary.toolRoundTrip).toBeNull();
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { MultimodalLiveClient } from "./multimodal-live-client";
+import {
+  isClientContentMessage,
+  isRealtimeInputMessage,
+  isToolResponseMessage,
+  ToolCall,
+} from "../multimodal-live-types";
+import { base64ToArrayBuffer } from "./utils";
+
+// rms of a pcm chunk above this counts as speech, like the session guards'
+// mic activity. the recorder sends a chunk every ~128ms, silent or not
+const SPEECH_THRESHOLD = 0.01;
+
+// rms of base64 16 bit little endian pcm, 0..1
+function pcmVolume(base64: string) {
+  const view = new DataView(base64ToArrayBuffer(base64));
+  const samples = Math.floor(view.byteLength / 2);
+  if (!samples) {
+    return 0;
+  }
+  let sum = 0;
+  for (let i = 0; i < samples; i++) {
+    const sample = view.getInt16(i * 2, true) / 32768;
+    sum += sample * sample;
+  }
+  return Math.sqrt(sum / samples);
+}
+
+/**
+ * timings of a single model turn, all durations in ms
+ */
+export type TurnMetrics = {
+  date: Date;
+  // from the end of the user's input to the first audio of the answer. the
+  // end of input is the last audio chunk with speech in it (not silence) or
+  // the last `send()`, whichever came later. null without any such input
+  timeToFirstAudio: number | null;
+  timeToFirstText: number | null;
+  // from the first part of the answer to turnComplete or the interruption
+  turnDuration: number | null;
+  interrupted: boolean;
+  // from each `toolcall` to the matching `sendToolResponse`
+  toolRoundTrips: number[];
+};
+
+/**
+ * Measures the turns of a client from its events and the frames it sends.
+ * Used by the client itself, listen to its `turnmetrics` event.
+ */
+export class TurnMetricsTracker {
+  // the end of the last speech or `send()` before the answer started
+  private lastInputAt: number | null = null;
+  private responseStartedAt: number | null = null;
+  private firstAudioAt: number | null = null;
+  private firstTextAt: number | null = null;
+  private toolCallsAt = new Map<string, number>();
+  private toolRoundTrips: number[] = [];
+
+  constructor(
+    client: MultimodalLiveClient,
+    private onTurn: (metrics: TurnMetrics) => void,
+  ) {
+    client
+      .on("frame", (direction, message) => {
+        if (direction === "out") {
+          this.onSent(message);
+        }
+      })
+      .on("audio", () => {
+        this.startResponse();
+        this.firstAudioAt ??= Date.now();
+      })
+      .on("textdelta", () => {
+        this.startResponse();
+        this.firstTextAt ??= Date.now();
+      })
+      .on("toolcall", (toolCall: ToolCall) => {
+        this.startResponse();
+        toolCall.functionCalls.forEach(({ id }) =>
+          this.toolCallsAt.set(id, Date.now()),
+        );
+      })
+      .on("interrupted", () => this.endTurn(true))
+      .on("turncomplete", () => this.endTurn(false))
+      .on("open", () => this.reset());
+  }
+
+  private onSent(message: object) {
+    if (isToolResponseMessage(message)) {
+      message.toolResponse.functionResponses.forEach(({ id }) => {
+        const calledAt = this.toolCallsAt.get(id);
+        if (calledAt !== undefined) {
+          this.toolRoundTrips.push(Date.now() - calledAt);
+          this.toolCallsAt.delete(id);
+        }
+      });
+      return;
+    }
+    // the mic keeps streaming while the model answers, only input before
+    // the answer counts
+    if (this.responseStartedAt !== null) {
+      return;
+    }
+    if (
+      isClientContentMessage(message) ||
+      (isRealtimeInputMessage(message) &&
+        message.realtimeInput.mediaChunks.some(
+          (ch) =>
+            ch.mimeType.includes("audio") &&
+            pcmVolume(ch.data) > SPEECH_THRESHOLD,
+        ))
+    ) {
+      this.lastInputAt = Date.now();
+    }
+  }
+
+  private startResponse() {
+    this.responseStartedAt ??= Date.now();
+  }
+
+  private endTurn(interrupted: boolean) {
+    if (this.responseStartedAt === null) {
+      return;
+    }
+    const since = (t: number | null) =>
+      t !== null && this.lastInputAt !== null ? t - this.lastInputAt : null;
+
+    this.onTurn({
+      date: new Date(),
+      timeToFirstAudio: since(this.firstAudioAt),
+      timeToFirstText: since(this.firstTextAt),
+      turnDuration: Date.now() - this.responseStartedAt,
+      interrupted,
+      toolRoundTrips: this.toolRoundTrips,
+    });
+    this.reset();
+  }
+
+  private reset() {
+    this.lastInputAt = null;
+    this.responseStartedAt = null;
+    this.firstAudioAt = null;
+    this.firstTextAt = null;
+    this.toolCallsAt.clear();
+    this.toolRoundTrips = [];
+  }
+}
+
+export type Percentiles = {
+  p50: number;
+  p90: number;
+  p99: number;
+  count: number;
+};
+
+export function percentiles(values: number[]): Percentiles | null {
+  if (!values.length) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  // nearest-rank
+  const at = (p: number) =>
+    sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)];
+  return { p50: at(0.5), p90: at(0.9), p99: at(0.99), count: sorted.length };
+}
+
+export type MetricsSummary = {
+  turns: number;
+  interruptions: number;
+  timeToFirstAudio: Percentiles | null;
+  timeToFirstText: Percentiles | null;
+  turnDuration: Percentiles | null;
+  toolRoundTrip: Percentiles | null;
+};
+
+const defined = (values: Array<number | null>) =>
+  values.filter((v): v is number => v !== null);
+
+/**
+ * rolling percentiles over the most recent `window` turns
+ */
+export function summarizeMetrics(
+  turns: TurnMetrics[],
+  window: number = 50,
+): MetricsSummary {
+  const recent = turns.slice(-window);
+  return {
+    turns: turns.length,
+    interruptions: turns.filter((t) => t.interrupted).length,
+    timeToFirstAudio: percentiles(
+      defined(recent.map((t) => t.timeToFirstAudio)),
+    ),
+    timeToFirstText: percentiles(defined(recent.map((t) => t.timeToFirstText))),
+    turnDuration: percentiles(defined(recent.map((t) => t.turnDuration))),
+    toolRoundTrip: percentiles(recent.flatMap((t) => t.toolRoundTrips)),
+  };
+}
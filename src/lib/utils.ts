@@ -24,6 +24,10 @@ export const audioContext: (
   options?: GetAudioContextOptions,
 ) => Promise<AudioContext> = (() => {
   const didInteract = new Promise((res) => {
+    // utils are also imported by the client when it runs headless in node
+    if (typeof window === "undefined") {
+      return;
+    }
     window.addEventListener("pointerdown", res, { once: true });
     window.addEventListener("keydown", res, { once: true });
   });
@@ -62,19 +66,19 @@ export const audioContext: (
   };
 })();
 
-export const blobToJSON = (blob: Blob) =>
-  new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => {
-      if (reader.result) {
-        const json = JSON.parse(reader.result as string);
-        resolve(json);
-      } else {
-        reject("oops");
-      }
-    };
-    reader.readAsText(blob);
-  });
+// `Blob.text()` instead of a FileReader, so this also works outside the browser
+export const blobToJSON = async (blob: Blob): Promise<unknown> =>
+  JSON.parse(await blob.text());
+
+export function arrayBufferToBase64(buffer: ArrayBuffer) {
+  var binary = "";
+  var bytes = new Uint8Array(buffer);
+  var len = bytes.byteLength;
+  for (var i = 0; i < len; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
 
 export function base64ToArrayBuffer(base64: string) {
   var binaryString = atob(base64);
@@ -84,3 +88,15 @@ export function base64ToArrayBuffer(base64: string) {
   }
   return bytes.buffer;
 }
+
+/**
+ * saves a blob through a temporary download link
+ */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
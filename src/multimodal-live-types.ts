@@ -49,6 +49,8 @@ export type LiveGenerationConfig = GenerationConfig & {
         voiceName: "Puck" | "Charon" | "Kore" | "Fenrir" | "Aoede" | string;
       };
     };
+    // BCP-47, e.g. "en-US"
+    languageCode?: string;
   };
 };
 
@@ -94,10 +96,17 @@ export type LiveIncomingMessage =
   | ToolCallCancellationMessage
   | ToolCallMessage
   | ServerContentMessage
-  | SetupCompleteMessage;
+  | SetupCompleteMessage
+  | UsageMetadataMessage;
 
 export type SetupCompleteMessage = { setupComplete: {} };
 
+/**
+ * a message of a type this client does not know (yet),
+ * keyed by its type, e.g. `{ goAway: { timeLeft: "10s" } }`
+ */
+export type UnrecognizedMessage = { [type: string]: unknown };
+
 export type ServerContentMessage = {
   serverContent: ServerContent;
 };
@@ -114,6 +123,33 @@ export type TurnComplete = { turnComplete: boolean };
 
 export type Interrupted = { interrupted: true };
 
+export type ModalityTokenCount = {
+  // e.g. "TEXT", "AUDIO", "IMAGE"
+  modality: string;
+  tokenCount: number;
+};
+
+/**
+ * token usage reported by the server, it comes on its own
+ * or along with another message such as `serverContent`
+ */
+export type UsageMetadata = {
+  promptTokenCount?: number;
+  cachedContentTokenCount?: number;
+  responseTokenCount?: number;
+  toolUsePromptTokenCount?: number;
+  thoughtsTokenCount?: number;
+  totalTokenCount?: number;
+  promptTokensDetails?: ModalityTokenCount[];
+  cacheTokensDetails?: ModalityTokenCount[];
+  responseTokensDetails?: ModalityTokenCount[];
+  toolUsePromptTokensDetails?: ModalityTokenCount[];
+};
+
+export type UsageMetadataMessage = {
+  usageMetadata: UsageMetadata;
+};
+
 export type ToolCallCancellationMessage = {
   toolCallCancellation: {
     ids: string[];
@@ -143,13 +179,14 @@ export type StreamingLog = {
   date: Date;
   type: string;
   count?: number;
-  message: string | LiveOutgoingMessage | LiveIncomingMessage;
+  message:
+    string | LiveOutgoingMessage | LiveIncomingMessage | UnrecognizedMessage;
 };
 
 // Type-Guards
 
 const prop = (a: any, prop: string, kind: string = "object") =>
-  typeof a === "object" && typeof a[prop] === "object";
+  typeof a === "object" && a !== null && typeof a[prop] === kind;
 
 // outgoing messages
 export const isSetupMessage = (a: unknown): a is SetupMessage =>
@@ -180,6 +217,9 @@ export const isToolCallCancellationMessage = (
   prop(a, "toolCallCancellation") &&
   isToolCallCancellation((a as any).toolCallCancellation);
 
+export const isUsageMetadataMessage = (a: unknown): a is UsageMetadataMessage =>
+  prop(a, "usageMetadata");
+
 export const isModelTurn = (a: any): a is ModelTurn =>
   typeof (a as ModelTurn).modelTurn === "object";
 